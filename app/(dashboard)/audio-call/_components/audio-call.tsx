@@ -11,13 +11,17 @@ import { BsChatDots } from "react-icons/bs"
 import { GrStatusPlaceholder } from "react-icons/gr"
 import SettingsPopup from "./settings-popup"
 import CallChat from "./call-chat"
+import HoldBanner from "./hold-banner"
+import CallQualityIndicator from "./call-quality"
+import RecordingConsent from "./recording-consent"
 import { useCall } from "./call-context"
 
 export default function AudioCall() {
   const {
     callTime,
+    callStatus,
     isMuted,
-    isHolding,
+    isLocalHold,
     isRecording,
     isChatOpen,
     isSettingsOpen,
@@ -76,7 +80,17 @@ export default function AudioCall() {
 
           <h2 className="text-xl font-medium text-gray-900 mt-4">{callUserFromRedux?.name || "User"}</h2>
           <p className="text-sm text-gray-500">{callUserFromRedux?.title || ""}</p>
-          <p className="text-sm text-gray-500 mt-1">{formatTime(callTime)}</p>
+          <div className="flex items-center gap-2 mt-1">
+            <p className="text-sm text-gray-500">
+              {callStatus === "reconnecting" ? "Reconnecting..." : formatTime(callTime)}
+            </p>
+            {callStatus === "connected" && <CallQualityIndicator />}
+          </div>
+
+          <div className="mt-4 flex flex-col items-center gap-2">
+            <HoldBanner peerName={callUserFromRedux?.name} />
+            <RecordingConsent peerName={callUserFromRedux?.name} />
+          </div>
 
           {/* Hidden video elements */}
           {hiddenVideoElements}
@@ -110,7 +124,7 @@ export default function AudioCall() {
                     className="rounded-full w-8 h-8 md:w-10 md:h-10 text-gray-400 cursor-pointer duration-300 ease-linear hover:bg-gray-100 flex items-center justify-center"
                     onClick={toggleHold}
                   >
-                    {isHolding ? (
+                    {isLocalHold ? (
                       <GrStatusPlaceholder className="h-4 w-4 md:h-5 md:w-5" />
                     ) : (
                       <Image
@@ -6,30 +6,18 @@ import { Button } from "@/components/ui/button"
 import Image from "next/image"
 import { Maximize, Mic, MoveUp, X, Paperclip } from "lucide-react"
 import Modal from "react-modal"
+import { useAuth } from "@/components/auth/auth-provider"
+import MessageReactions from "@/components/chat/message-reactions"
 import { useCall } from "./call-context"
 
-interface Message {
-  id: number
-  text: string
-  sender: string
-  timestamp: Date
-  isAudio?: boolean
-  isVideo?: boolean
-  audioDuration?: string
-  audioUrl?: string
-  videoUrl?: string
-  imageUrl?: string
-}
-
-interface CallChatProps {
-  messages: Message[]
-  onSendMessage: (audioUrl: string | null, message: string) => void
-  isChatOpen: boolean
-  setIsChatOpen: (isOpen: boolean) => void
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60)
+  return `${String(minutes).padStart(2, "0")}:${String(seconds % 60).padStart(2, "0")}`
 }
 
 const CallChat = () => {
-  const { messages, sendChatMessage, setIsChatOpen } = useCall()
+  const { messages, sendChatMessage, toggleChatReaction, setIsChatOpen } = useCall()
+  const { user } = useAuth()
 
   const [message, setMessage] = useState("")
   const [selectedImages, setSelectedImages] = useState<File[]>([])
@@ -38,6 +26,7 @@ const CallChat = () => {
   const [isRecording, setIsRecording] = useState(false)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
   const audioChunksRef = useRef<Blob[]>([])
+  const recordingStartedAtRef = useRef(0)
   const [isImageModalOpen, setIsImageModalOpen] = useState(false)
   const [selectedImage, setSelectedImage] = useState<string | null>(null)
 
@@ -54,20 +43,11 @@ const CallChat = () => {
     e.preventDefault()
     if (message.trim() || selectedImages.length > 0) {
       if (selectedImages.length > 0) {
-        selectedImages.forEach((file) => {
-          const fileUrl = URL.createObjectURL(file)
-          if (file.type.startsWith("audio/")) {
-            sendChatMessage(fileUrl, "")
-          } else if (file.type.startsWith("video/")) {
-            sendChatMessage(null, "", undefined, fileUrl)
-          } else if (file.type.startsWith("image/")) {
-            sendChatMessage(null, "", fileUrl)
-          }
-        })
+        selectedImages.forEach((file) => sendChatMessage("", file))
         setSelectedImages([])
       }
       if (message.trim()) {
-        sendChatMessage(null, message)
+        sendChatMessage(message)
         setMessage("")
       }
     }
@@ -97,15 +77,18 @@ const CallChat = () => {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
       mediaRecorderRef.current = new MediaRecorder(stream)
       audioChunksRef.current = []
+      recordingStartedAtRef.current = Date.now()
 
       mediaRecorderRef.current.ondataavailable = (event) => {
         audioChunksRef.current.push(event.data)
       }
 
       mediaRecorderRef.current.onstop = () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: "audio/wav" })
-        const audioUrl = URL.createObjectURL(audioBlob) // Create a URL for the recorded audio
-        sendChatMessage(audioUrl, "") // Send the recorded audio
+        stream.getTracks().forEach((track) => track.stop())
+        const mimeType = (mediaRecorderRef.current?.mimeType || "audio/webm").split(";")[0]
+        const voiceNote = new File(audioChunksRef.current, `voice-note-${Date.now()}.webm`, { type: mimeType })
+        const seconds = Math.round((Date.now() - recordingStartedAtRef.current) / 1000)
+        sendChatMessage("", voiceNote, formatDuration(seconds))
       }
 
       mediaRecorderRef.current.start()
@@ -166,50 +149,61 @@ const CallChat = () => {
                 className="object-cover"
               />
             </div>
-            {msg.isVideo ? (
-              <video controls className="max-w-[300px]">
-                <source src={msg.videoUrl} type="video/mp4" />
-                Your browser does not support the video tag.
-              </video>
-            ) : msg.isAudio ? (
-              <div className="bg-gray-100 p-2 rounded-md flex items-center gap-2">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="h-6 w-6 rounded-full bg-blue-500 p-0 flex items-center justify-center"
-                  onClick={() => msg.audioUrl && playAudioMessage(msg.audioUrl)}
-                >
-                  <span className="text-white text-xs">▶</span>
-                </Button>
-                <div className="flex-1">
-                  <div className="w-full h-2 bg-blue-200 rounded-full">
-                    <div className="h-full w-3/4 bg-blue-500 rounded-full"></div>
+            <div className={msg.delivery === "pending" ? "opacity-60" : ""}>
+              {msg.attachment?.kind === "video" ? (
+                <video controls className="max-w-[300px]" poster={msg.attachment.thumbnail_url}>
+                  <source src={msg.attachment.url} type={msg.attachment.mime_type} />
+                  Your browser does not support the video tag.
+                </video>
+              ) : msg.attachment?.kind === "audio" ? (
+                <div className="bg-gray-100 p-2 rounded-md flex items-center gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 rounded-full bg-blue-500 p-0 flex items-center justify-center"
+                    onClick={() => msg.attachment && playAudioMessage(msg.attachment.url)}
+                  >
+                    <span className="text-white text-xs">▶</span>
+                  </Button>
+                  <div className="flex-1">
+                    <div className="w-full h-2 bg-blue-200 rounded-full">
+                      <div className="h-full w-3/4 bg-blue-500 rounded-full"></div>
+                    </div>
                   </div>
+                  <span className="text-xs text-gray-500">{msg.audioDuration || "00:00"}</span>
                 </div>
-                <span className="text-xs text-gray-500">{msg.audioDuration || "00:00"}</span>
-              </div>
-            ) : msg.imageUrl ? (
-              <div
-                className="p-3 rounded-lg bg-gray-100 max-w-[300px]"
-                onClick={() => msg.imageUrl && openImageModal(msg.imageUrl)}
-              >
-                <Image
-                  src={msg.imageUrl || "/placeholder.svg"}
-                  alt="Sent Image"
-                  className="object-cover rounded-md"
-                  width={300}
-                  height={200}
+              ) : msg.attachment?.kind === "image" ? (
+                <div
+                  className="p-3 rounded-lg bg-gray-100 max-w-[300px]"
+                  onClick={() => msg.attachment && openImageModal(msg.attachment.url)}
+                >
+                  <Image
+                    src={msg.attachment.thumbnail_url || msg.attachment.url || "/placeholder.svg"}
+                    alt="Sent Image"
+                    className="object-cover rounded-md"
+                    width={300}
+                    height={200}
+                  />
+                </div>
+              ) : (
+                <div
+                  className={`p-3 rounded-lg ${
+                    msg.sender === "me" ? "bg-[#004D49] text-white text-right" : "bg-[#f6f8f8] text-[#004D49]"
+                  } max-w-[300px]`}
+                >
+                  <p className="inter text-sm font-normal leading-[22px] break-words text-left ">{msg.text}</p>
+                </div>
+              )}
+              {msg.delivery === "failed" && <p className="mt-1 text-right text-xs text-red-500">Not sent</p>}
+              {!msg.delivery && (
+                <MessageReactions
+                  reactions={msg.reactions}
+                  currentUserId={user?.id}
+                  onToggle={(emoji) => toggleChatReaction(msg.id, emoji)}
+                  align={msg.sender === "me" ? "end" : "start"}
                 />
-              </div>
-            ) : (
-              <div
-                className={`p-3 rounded-lg ${
-                  msg.sender === "me" ? "bg-[#004D49] text-white text-right" : "bg-[#f6f8f8] text-[#004D49]"
-                } max-w-[300px]`}
-              >
-                <p className="inter text-sm font-normal leading-[22px] break-words text-left ">{msg.text}</p>
-              </div>
-            )}
+              )}
+            </div>
           </div>
         ))}
         <div ref={messagesEndRef} />
@@ -13,6 +13,36 @@ import { useRouter } from "next/navigation";
 import { useAuth } from "@/components/auth/auth-provider";
 import { useToast } from "@/components/ui/use-toast";
 import { SocketService } from "@/service/socket.service";
+import { ChatService } from "@/service/chat.service";
+import {
+  getAttachmentKind,
+  validateAttachment,
+  type MessageAttachment,
+} from "@/service/chat.attachments";
+import {
+  applyReaction,
+  hasReacted,
+  type MessageReaction,
+} from "@/service/chat.reactions";
+import type { CallChatMessage } from "@/service/socket.protocol";
+import type {
+  CallStatus,
+  RecordingStatus,
+  VideoQuality,
+} from "@/service/call.engine";
+import type { CallStatsSample } from "@/service/call.stats";
+import { useCallEngine } from "@/hooks/use-call-engine";
+import { useHoldTone } from "@/hooks/use-hold-tone";
+import {
+  loadDevicePreferences,
+  saveDevicePreferences,
+  type MediaDevicePreferences,
+} from "@/lib/media-devices";
+import { useAppDispatch } from "@/src/redux/hooks";
+import {
+  addCallHistoryEntry,
+  type CallHistoryStatus,
+} from "@/src/redux/features/callHistory/callHistorySlice";
 
 type CallUser = {
   img: string;
@@ -21,30 +51,51 @@ type CallUser = {
 };
 
 interface Message {
-  id: number;
+  id: string;
   text: string;
-  sender: string;
+  sender: "me" | "other";
   timestamp: Date;
-  isAudio?: boolean;
-  isVideo?: boolean;
+  attachment?: MessageAttachment | null;
   audioDuration?: string;
-  audioUrl?: string;
-  videoUrl?: string;
-  imageUrl?: string;
+  reactions?: MessageReaction[];
+  // Local only: set while media is uploading or if it couldn't be sent
+  delivery?: "pending" | "failed";
 }
 
+const toChatMessage = (data: CallChatMessage, userId?: string): Message => ({
+  id: data.id,
+  text: data.message,
+  sender: data.senderId === userId ? "me" : "other",
+  timestamp: new Date(data.timestamp),
+  attachment: data.attachment,
+  audioDuration: data.audioDuration,
+  reactions: data.reactions,
+});
+
 interface CallContextType {
   // Call state
-  callStatus: "connecting" | "connected" | "ended";
+  callStatus: CallStatus;
   isMuted: boolean;
+  // True while either side has the call on hold
   isHolding: boolean;
+  isLocalHold: boolean;
+  isRemoteHold: boolean;
+  isHoldToneEnabled: boolean;
+  isScreenSharing: boolean;
+  isRemoteScreenSharing: boolean;
+  // True while either side records, with both parties' consent
   isRecording: boolean;
+  recordingStatus: RecordingStatus;
   isChatOpen: boolean;
   isSettingsOpen: boolean;
   callTimeoutSeconds: number;
   callTime: number;
   callUser: CallUser | null;
   callType: "audio" | "video";
+  callStats: CallStatsSample | null;
+  statsHistory: CallStatsSample[];
+  videoQuality: VideoQuality;
+  isRemoteVideoSuspended: boolean;
 
   // Media refs
   localVideoRef: React.RefObject<HTMLVideoElement | null>;
@@ -53,19 +104,26 @@ interface CallContextType {
   // Messages
   messages: Message[];
 
+  // Devices
+  devicePreferences: MediaDevicePreferences;
+
   // Actions
   toggleMute: () => void;
   toggleHold: () => void;
+  toggleHoldTone: () => void;
+  toggleScreenShare: () => void;
   toggleRecording: () => void;
+  respondToRecordingRequest: (granted: boolean) => void;
   toggleChat: () => void;
   toggleSettings: () => void;
   endCall: () => void;
+  applyDeviceSettings: (preferences: MediaDevicePreferences) => Promise<void>;
   sendChatMessage: (
-    audioUrl: string | null,
     message: string,
-    imageUrl?: string,
-    videoUrl?: string
-  ) => void;
+    file?: File,
+    audioDuration?: string
+  ) => Promise<void>;
+  toggleChatReaction: (messageId: string, emoji: string) => void;
 
   // Call info
   receiverId: string;
@@ -108,6 +166,7 @@ export function CallProvider({
   initialUser,
 }: CallProviderProps) {
   const router = useRouter();
+  const dispatch = useAppDispatch();
   const { user, token, BASE_URL } = useAuth();
   const { toast } = useToast();
 
@@ -115,13 +174,11 @@ export function CallProvider({
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const remoteVideoRef = useRef<HTMLVideoElement>(null);
 
+  // Call engine
+  const { state: callState, engine } = useCallEngine();
+  const callStatus = callState.status;
+
   // State
-  const [callStatus, setCallStatus] = useState<
-    "connecting" | "connected" | "ended"
-  >("connecting");
-  const [isMuted, setIsMuted] = useState(false);
-  const [isHolding, setIsHolding] = useState(false);
-  const [isRecording, setIsRecording] = useState(false);
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [callTimeoutSeconds, setCallTimeoutSeconds] = useState(30);
@@ -132,45 +189,58 @@ export function CallProvider({
   const [callType, setCallType] = useState<"audio" | "video">(
     isVideoCall ? "video" : "audio"
   );
+  const [devicePreferences, setDevicePreferences] =
+    useState<MediaDevicePreferences>({});
+  const [isHoldToneEnabled, setIsHoldToneEnabled] = useState(true);
+
+  useHoldTone(callState.isRemoteOnHold && isHoldToneEnabled);
 
   // Messages
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: 1,
-      text: "This is really amazing game!",
-      sender: "other",
-      timestamp: new Date(),
-    },
-    {
-      id: 2,
-      text: "I just wanted to let everyone know that Kira won her game today. She even got her first goal!",
-      sender: "other",
-      timestamp: new Date(),
-    },
-    {
-      id: 3,
-      text: "",
-      sender: "me",
-      timestamp: new Date(),
-      isAudio: true,
-      audioDuration: "00:40",
-    },
-    {
-      id: 4,
-      text: "This is really amazing game!",
-      sender: "other",
-      timestamp: new Date(),
-    },
-    {
-      id: 5,
-      text: "Thanks everyone. I am super happy today.",
-      sender: "me",
-      timestamp: new Date(),
-    },
-  ]);
+  const [messages, setMessages] = useState<Message[]>([]);
 
   // Initialize socket service
   const socketService = SocketService.getInstance();
+  const unsubscribersRef = useRef<(() => void)[]>([]);
+
+  // The engine may still hold a previous call's "ended" state on mount, so
+  // only react to it once this provider has started its own call
+  const hasStartedRef = useRef(false);
+  const callTimeRef = useRef(0);
+  const historyRecordedRef = useRef(false);
+
+  // Merges the appointment's stored in-call messages into what's on screen,
+  // e.g. ones from before a rejoin or sent while the socket was down.
+  // Anything that arrived live in the meantime is kept; reactions on known
+  // messages are taken from the server, which may have seen ones we missed.
+  const loadChatHistory = async () => {
+    if (!user?.id) return;
+
+    try {
+      const history =
+        await ChatService.getInstance().getCallChatMessages(appointmentId);
+      const stored = new Map(history.map((m) => [m.id, m]));
+      setMessages((prev) => {
+        const known = new Set(prev.map((m) => m.id));
+        const missed = history
+          .filter((m) => !known.has(m.id))
+          .map((m) => toChatMessage(m, user.id));
+        const current = prev.map((m) =>
+          stored.has(m.id)
+            ? { ...m, reactions: stored.get(m.id)?.reactions }
+            : m
+        );
+        return [...current, ...missed].sort(
+          (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+        );
+      });
+    } catch (error) {
+      console.error("Error loading call chat history:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadChatHistory();
+  }, [appointmentId, user?.id]);
 
   // Timer for call duration
   useEffect(() => {
@@ -183,6 +253,186 @@ export function CallProvider({
     }
   }, [callStatus]);
 
+  useEffect(() => {
+    callTimeRef.current = callTime;
+  }, [callTime]);
+
+  // Attach the engine's media streams to the video elements. While sharing,
+  // the local preview shows what's being presented instead of the camera.
+  useEffect(() => {
+    if (localVideoRef.current) {
+      localVideoRef.current.srcObject =
+        callState.screenStream ?? callState.localStream;
+    }
+  }, [callState.localStream, callState.screenStream]);
+
+  useEffect(() => {
+    if (remoteVideoRef.current) {
+      remoteVideoRef.current.srcObject = callState.remoteStream;
+      // Ensure the remote video element has audio enabled
+      remoteVideoRef.current.muted = false;
+      remoteVideoRef.current.volume = 1.0;
+    }
+  }, [callState.remoteStream]);
+
+  // Route remote audio to the chosen speaker
+  useEffect(() => {
+    if (callState.remoteStream && devicePreferences.speakerId) {
+      setSpeaker(devicePreferences.speakerId).catch((error) =>
+        console.error("Error setting audio output:", error)
+      );
+    }
+  }, [callState.remoteStream, devicePreferences.speakerId]);
+
+  // Fall back to the default devices when the ones in use disappear, e.g.
+  // a headset being unplugged mid-call
+  useEffect(() => {
+    const handleDeviceChange = async () => {
+      const { localStream } = engine.getState();
+      if (!localStream) return;
+
+      try {
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        const isAvailable = (kind: MediaDeviceKind, deviceId?: string) =>
+          !deviceId ||
+          devices.some(
+            (device) => device.kind === kind && device.deviceId === deviceId
+          );
+
+        const fallbacks: string[] = [];
+
+        const [audioTrack] = localStream.getAudioTracks();
+        if (
+          audioTrack &&
+          (audioTrack.readyState === "ended" ||
+            !isAvailable("audioinput", audioTrack.getSettings().deviceId))
+        ) {
+          await engine.switchDevice("audio");
+          fallbacks.push("microphone");
+        }
+
+        const [videoTrack] = localStream.getVideoTracks();
+        if (
+          videoTrack &&
+          (videoTrack.readyState === "ended" ||
+            !isAvailable("videoinput", videoTrack.getSettings().deviceId))
+        ) {
+          await engine.switchDevice("video");
+          fallbacks.push("camera");
+        }
+
+        const sinkId = remoteVideoRef.current?.sinkId;
+        if (sinkId && !isAvailable("audiooutput", sinkId)) {
+          await setSpeaker("");
+          fallbacks.push("speaker");
+        }
+
+        if (fallbacks.length) {
+          toast({
+            title: "Device Disconnected",
+            description: `Switched to the default ${fallbacks.join(" and ")}.`,
+          });
+        }
+      } catch (error) {
+        console.error("Error handling device change:", error);
+        toast({
+          title: "Device Error",
+          description: "Could not switch to another device.",
+          variant: "destructive",
+        });
+      }
+    };
+
+    navigator.mediaDevices?.addEventListener("devicechange", handleDeviceChange);
+    return () => {
+      navigator.mediaDevices?.removeEventListener(
+        "devicechange",
+        handleDeviceChange
+      );
+    };
+  }, []);
+
+  // Record the outcome of this call once
+  const recordCallHistory = (status: CallHistoryStatus) => {
+    if (historyRecordedRef.current) return;
+    historyRecordedRef.current = true;
+
+    dispatch(
+      addCallHistoryEntry({
+        status,
+        direction: isIncoming ? "incoming" : "outgoing",
+        peerId: receiverId,
+        appointmentId,
+        isVideoCall,
+        duration: status === "completed" ? callTimeRef.current : undefined,
+        qualityReport:
+          status === "completed" ? engine.getQualityReport() : undefined,
+      })
+    );
+  };
+
+  // Wrap up once the engine reports the call has ended
+  useEffect(() => {
+    if (callStatus !== "ended" || !hasStartedRef.current) return;
+
+    const { endReason, error, connectedAt } = engine.getState();
+    if (connectedAt !== null) {
+      recordCallHistory("completed");
+    } else if (endReason === "rejected" || endReason === "not-answered") {
+      recordCallHistory(endReason);
+    }
+
+    if (endReason === "rejected") {
+      toast({
+        title: "Call Rejected",
+        description: "The call was declined.",
+        variant: "destructive",
+      });
+    } else if (endReason === "not-answered") {
+      toast({
+        title: "Call Timed Out",
+        description: "The call has timed out due to no response.",
+        variant: "destructive",
+      });
+    } else if (endReason === "timed-out") {
+      toast({
+        title: "Call Could Not Connect",
+        description: "The media connection took too long to establish.",
+        variant: "destructive",
+      });
+    } else if (endReason === "failed") {
+      toast({
+        title: "Call Disconnected",
+        description: error || "The call could not be connected.",
+        variant: "destructive",
+      });
+    }
+
+    router.push("/dashboard");
+  }, [callStatus]);
+
+  // Tell the user when a weak connection pauses or restores their video
+  const isAudioOnlyFallback = callState.videoQuality === "audio-only";
+  const wasAudioOnlyFallbackRef = useRef(false);
+  useEffect(() => {
+    if (isAudioOnlyFallback === wasAudioOnlyFallbackRef.current) return;
+    wasAudioOnlyFallbackRef.current = isAudioOnlyFallback;
+    if (callStatus !== "connected") return;
+
+    toast(
+      isAudioOnlyFallback
+        ? {
+            title: "Switched to Audio Only",
+            description:
+              "Your connection is too weak for video. It will come back when the connection improves.",
+          }
+        : {
+            title: "Video Restored",
+            description: "Your connection has recovered.",
+          }
+    );
+  }, [isAudioOnlyFallback]);
+
   // Initialize call
   useEffect(() => {
     const initializeCall = async () => {
@@ -192,147 +442,100 @@ export function CallProvider({
 
         // Set up event handlers
         const setupEventHandlers = () => {
-          socketService.onCallAccepted(() => {
-            setCallStatus("connected");
-          });
+          const subscribe: typeof socketService.subscribe = (
+            event,
+            listener
+          ) => {
+            const unsubscribe = socketService.subscribe(event, listener);
+            unsubscribersRef.current.push(unsubscribe);
+            return unsubscribe;
+          };
 
-          socketService.onCallEnded(() => {
-            endCall();
+          subscribe("reconnected", () => {
+            loadChatHistory();
+            toast({
+              title: "Reconnected",
+              description: "The call connection has been restored.",
+            });
           });
 
-          socketService.onChatMessage((message: Message) => {
-            setMessages((prev) => [...prev, message]);
+          subscribe("peerReconnecting", () => {
+            toast({
+              title: "Reconnecting",
+              description: "The other participant is reconnecting...",
+            });
           });
 
-          socketService.onCallTimeout = function (callback) {
-            this.onCallTimeoutCallback = callback;
-          };
+          subscribe("chatReaction", (data) => {
+            if (data.appointmentId !== appointmentId) return;
+            updateReaction(data.messageId, data.emoji, data.userId, data.added);
+          });
 
-          socketService.onCallTimeout(() => {
-            toast({
-              title: "Call Timed Out",
-              description: "The call has timed out due to no response.",
-              variant: "destructive",
-            });
-            endCall();
+          subscribe("chatMessage", (data) => {
+            if (data.appointmentId !== appointmentId) return;
+            setMessages((prev) =>
+              prev.some((m) => m.id === data.id)
+                ? prev
+                : [...prev, toChatMessage(data, user?.id)]
+            );
           });
         };
 
         // Set up event handlers
         setupEventHandlers();
 
-        // Set up media
-        await setupMedia();
+        const devices = loadDevicePreferences(user?.id);
+        setDevicePreferences(devices);
 
         // Handle call based on whether it's incoming or outgoing
+        engine.reset();
+        hasStartedRef.current = true;
         if (!isIncoming) {
-          // Join the call room first
-          socketService.joinCall(appointmentId);
-
-          // After joining, initiate the call
-          socketService.onJoinedCall(async () => {
-            try {
-              // Initiate the call to the receiver
-              await socketService.initiateCall(
-                appointmentId,
-                receiverId,
-                isVideoCall
-              );
-              console.log(
-                `Initiating ${
-                  isVideoCall ? "video" : "audio"
-                } call to ${receiverId}`
-              );
-
-              // Start countdown timer
-              startCountdownTimer();
-            } catch (error) {
-              console.error("Error initiating call:", error);
-              toast({
-                title: "Call Error",
-                description: "Failed to initiate call",
-                variant: "destructive",
-              });
-              endCall();
-            }
+          await engine.startCall({
+            appointmentId,
+            receiverId,
+            isVideoCall,
+            devices,
+          });
+          console.log(
+            `Initiating ${isVideoCall ? "video" : "audio"} call to ${receiverId}`
+          );
+
+          // Start countdown timer
+          startCountdownTimer();
+        } else if (callId && offer) {
+          await engine.acceptCall({
+            callId,
+            callerId: receiverId,
+            appointmentId,
+            offer,
+            isVideoCall,
+            devices,
           });
-        } else {
-          // For incoming calls, handle the incoming call with the offer
-          if (callId && offer) {
-            await handleIncomingCall(callId, offer);
-          }
         }
-
-        // Remove or comment out these lines as they're now handled in the code above
-        // socketService.joinCall(appointmentId)
-        // startCountdownTimer()
       } catch (error) {
         console.error("Error initializing call:", error);
-        toast({
-          title: "Call Error",
-          description: "Failed to initialize call",
-          variant: "destructive",
-        });
-        endCall();
+        // Failures inside the engine end the call and are reported above
+        if (engine.getState().status !== "ended") {
+          toast({
+            title: "Call Error",
+            description: "Failed to initialize call",
+            variant: "destructive",
+          });
+          endCall();
+        }
       }
     };
 
     initializeCall();
 
     return () => {
+      unsubscribersRef.current.forEach((unsubscribe) => unsubscribe());
+      unsubscribersRef.current = [];
       cleanupCall();
     };
   }, []);
 
-  // Add this function to ensure audio is unmuted initially
-  const setupMedia = async () => {
-    try {
-      const stream = await socketService.setupLocalMedia(isVideoCall);
-
-      if (localVideoRef.current) {
-        localVideoRef.current.srcObject = stream;
-      }
-
-      // Make sure audio is enabled by default
-      stream.getAudioTracks().forEach((track) => {
-        track.enabled = true;
-      });
-
-      // Set up remote video
-      socketService.onRemoteStream((stream) => {
-        if (remoteVideoRef.current) {
-          remoteVideoRef.current.srcObject = stream;
-          // Ensure the remote video element has audio enabled
-          remoteVideoRef.current.muted = false;
-          remoteVideoRef.current.volume = 1.0;
-        }
-      });
-
-      return stream;
-    } catch (error) {
-      console.error("Error accessing media devices:", error);
-      throw error;
-    }
-  };
-
-  const handleIncomingCall = async (
-    callId: string,
-    offer: RTCSessionDescriptionInit
-  ) => {
-    try {
-      await socketService.answerCall(callId, receiverId, appointmentId, offer);
-      setCallStatus("connected");
-    } catch (error) {
-      console.error("Error handling incoming call:", error);
-      toast({
-        title: "Call Error",
-        description: "Failed to answer call",
-        variant: "destructive",
-      });
-      endCall();
-    }
-  };
-
   const startCountdownTimer = () => {
     setCallTimeoutSeconds(30);
     const countdownInterval = setInterval(() => {
@@ -349,23 +552,46 @@ export function CallProvider({
   };
 
   const toggleMute = () => {
-    socketService.toggleAudio();
-    setIsMuted(!isMuted);
+    engine.toggleMute();
   };
 
   const toggleHold = () => {
-    socketService.toggleHold();
-    setIsHolding(!isHolding);
+    engine.toggleHold();
+  };
+
+  const toggleHoldTone = () => {
+    setIsHoldToneEnabled(!isHoldToneEnabled);
+  };
+
+  const toggleScreenShare = async () => {
+    try {
+      await engine.toggleScreenShare();
+    } catch (error) {
+      // Closing the browser's picker isn't an error worth reporting
+      if ((error as DOMException).name === "NotAllowedError") return;
+
+      console.error("Error toggling screen share:", error);
+      toast({
+        title: "Screen Sharing Failed",
+        description: (error as Error).message || "Could not share your screen.",
+        variant: "destructive",
+      });
+    }
   };
 
+  // Asks the other participant to agree before anything is recorded
   const toggleRecording = () => {
-    if (isRecording) {
-      socketService.stopRecording(appointmentId);
+    if (callState.recordingStatus === "idle") {
+      engine.requestRecording();
     } else {
-      socketService.startRecording(appointmentId);
+      engine.stopRecording();
     }
   };
 
+  const respondToRecordingRequest = (granted: boolean) => {
+    engine.respondToRecordingRequest(granted);
+  };
+
   const toggleChat = () => {
     setIsChatOpen(!isChatOpen);
   };
@@ -374,107 +600,276 @@ export function CallProvider({
     setIsSettingsOpen(!isSettingsOpen);
   };
 
-  const sendChatMessage = (
-    audioUrl: string | null,
+  // An empty sinkId routes audio back to the system default output
+  const setSpeaker = async (speakerId: string) => {
+    const element = remoteVideoRef.current;
+    if (!element || typeof element.setSinkId !== "function") return;
+    if (element.sinkId !== speakerId) {
+      await element.setSinkId(speakerId);
+    }
+  };
+
+  const applyDeviceSettings = async (preferences: MediaDevicePreferences) => {
+    const { localStream } = engine.getState();
+    const currentDeviceId = (track?: MediaStreamTrack) =>
+      track?.getSettings().deviceId;
+
+    try {
+      if (
+        preferences.microphoneId &&
+        preferences.microphoneId !==
+          currentDeviceId(localStream?.getAudioTracks()[0])
+      ) {
+        await engine.switchDevice("audio", preferences.microphoneId);
+      }
+
+      if (
+        preferences.cameraId &&
+        preferences.cameraId !==
+          currentDeviceId(localStream?.getVideoTracks()[0])
+      ) {
+        await engine.switchDevice("video", preferences.cameraId);
+      }
+
+      if (preferences.speakerId) {
+        await setSpeaker(preferences.speakerId);
+      }
+
+      setDevicePreferences(preferences);
+      if (user) saveDevicePreferences(user.id, preferences);
+    } catch (error) {
+      console.error("Error applying device settings:", error);
+      toast({
+        title: "Device Error",
+        description: "Could not switch to the selected device.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Media is uploaded first so the other side gets a URL it can open; until
+  // then the sender sees a local preview
+  const sendChatMessage = async (
     message: string,
-    imageUrl?: string,
-    videoUrl?: string
+    file?: File,
+    audioDuration?: string
   ) => {
-    // Create local message
-    const newMessage: Message = {
-      id: Date.now(),
-      text: audioUrl ? "" : message,
-      sender: "me",
-      timestamp: new Date(),
-      isAudio: !!audioUrl,
-      isVideo: !!videoUrl,
-      audioDuration: audioUrl ? "00:00" : undefined,
-      audioUrl: audioUrl || undefined,
-      videoUrl: videoUrl,
-      imageUrl: imageUrl,
-    };
+    const kind = file ? getAttachmentKind(file.type) : null;
+    if (file) {
+      const problem = validateAttachment(file);
+      if (problem || kind === "document") {
+        toast({
+          title: "Can't send file",
+          description: problem || "Only images, videos and audio can be sent.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    const id = crypto.randomUUID();
+    const timestamp = new Date().toISOString();
+    const previewUrl = file ? URL.createObjectURL(file) : null;
+
+    setMessages((prev) => [
+      ...prev,
+      {
+        id,
+        text: message,
+        sender: "me",
+        timestamp: new Date(timestamp),
+        audioDuration,
+        attachment:
+          file && kind && previewUrl
+            ? {
+                id: "",
+                kind,
+                url: previewUrl,
+                name: file.name,
+                mime_type: file.type,
+                size: file.size,
+              }
+            : null,
+        delivery: file ? "pending" : undefined,
+      },
+    ]);
+
+    let attachment: MessageAttachment | null = null;
+    if (file && previewUrl) {
+      try {
+        attachment = await ChatService.getInstance().uploadAttachment(file);
+      } catch (error) {
+        console.error("Failed to upload chat media:", error);
+        setMessages((prev) =>
+          prev.map((m) => (m.id === id ? { ...m, delivery: "failed" } : m))
+        );
+        toast({
+          title: "Error",
+          description: "Couldn't send the file. Please try again.",
+          variant: "destructive",
+        });
+        return;
+      }
 
-    setMessages((prev) => [...prev, newMessage]);
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === id ? { ...m, attachment, delivery: undefined } : m
+        )
+      );
+      URL.revokeObjectURL(previewUrl);
+    }
 
-    // Send to server
-    socketService.sendChatMessage(
+    // The server keeps it with the appointment and passes it on
+    socketService.sendChatMessage({
+      id,
       appointmentId,
       message,
-      audioUrl || undefined,
-      imageUrl,
-      videoUrl
+      attachment,
+      audioDuration,
+      timestamp,
+    });
+  };
+
+  const updateReaction = (
+    messageId: string,
+    emoji: string,
+    userId: string,
+    added: boolean
+  ) => {
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.id === messageId
+          ? { ...m, reactions: applyReaction(m.reactions, emoji, userId, added) }
+          : m
+      )
     );
   };
 
-  const endCall = () => {
-    socketService.endCall(appointmentId);
-    cleanupCall();
-    router.push("/dashboard");
+  // Reactions are stored with the transcript by the server, like messages
+  const toggleChatReaction = (messageId: string, emoji: string) => {
+    if (!user?.id) return;
+
+    const message = messages.find((m) => m.id === messageId);
+    const added = !hasReacted(message?.reactions, emoji, user.id);
+    updateReaction(messageId, emoji, user.id, added);
+    socketService.sendChatReaction({ appointmentId, messageId, emoji, added });
   };
 
-  const cleanupCall = () => {
+  const endCall = () => {
     // Stop recording if active
-    if (isRecording) {
-      socketService.stopRecording(appointmentId);
-    }
+    engine.stopRecording();
 
-    // Clean up socket and media
-    socketService.cleanup();
+    if (engine.isActive()) {
+      // The "ended" handler above records history and navigates away
+      engine.hangUp();
+    } else {
+      router.push("/dashboard");
+    }
+  };
 
-    // Reset state
-    setCallStatus("ended");
+  const cleanupCall = () => {
+    // Leaving the page hangs up a call that is still in progress
+    if (engine.isActive()) {
+      const wasConnected = engine.getState().connectedAt !== null;
+      engine.hangUp();
+      if (wasConnected) recordCallHistory("completed");
+    }
+    engine.reset();
   };
 
   // Recording event handlers
   useEffect(() => {
     if (!socketService) return;
 
-    socketService.onRecordingStarted(() => {
-      console.log("Recording started");
-      setIsRecording(true);
-    });
-
-    socketService.onRecordingStopped(() => {
-      console.log("Recording stopped");
-      setIsRecording(false);
-    });
+    const unsubscribeConsent = socketService.subscribe(
+      "remoteRecordingConsent",
+      ({ action }) => {
+        const peerName = callUser?.name || "The other participant";
+        // The engine has already handled the action, so a request that finds
+        // us recording crossed with our own
+        const { recordingStatus } = engine.getState();
+        const isMutualRequest =
+          action === "request" &&
+          (recordingStatus === "recording" ||
+            recordingStatus === "peer-recording");
+
+        if (action === "grant" || isMutualRequest) {
+          toast({
+            title: "Recording Started",
+            description: isMutualRequest
+              ? `You and ${peerName} both asked to record this call.`
+              : `${peerName} agreed to record this call.`,
+          });
+        } else if (action === "decline") {
+          toast({
+            title: "Recording Declined",
+            description: `${peerName} did not agree to record this call.`,
+          });
+        } else if (action === "revoke") {
+          toast({
+            title: "Recording Stopped",
+            description: `${peerName} withdrew their consent to recording.`,
+            variant: "destructive",
+          });
+        }
+      }
+    );
 
-    socketService.onCallError((error) => {
+    const unsubscribeError = socketService.subscribe("callError", (error) => {
       console.error("Recording error:", error);
       toast({
         title: "Recording Error",
         description: error.message || "An error occurred with the recording",
         variant: "destructive",
       });
-      setIsRecording(false);
+      engine.stopRecording();
     });
 
     return () => {
-      // Cleanup will be handled by socketService.cleanup()
+      unsubscribeConsent();
+      unsubscribeError();
     };
-  }, [socketService]);
+  }, [socketService, callUser]);
 
   const value = {
     callStatus,
-    isMuted,
-    isHolding,
-    isRecording,
+    isMuted: callState.isMuted,
+    isHolding: callState.isOnHold || callState.isRemoteOnHold,
+    isLocalHold: callState.isOnHold,
+    isRemoteHold: callState.isRemoteOnHold,
+    isHoldToneEnabled,
+    isScreenSharing: !!callState.screenStream,
+    isRemoteScreenSharing: callState.isRemoteScreenSharing,
+    isRecording:
+      callState.recordingStatus === "recording" ||
+      callState.recordingStatus === "peer-recording",
+    recordingStatus: callState.recordingStatus,
     isChatOpen,
     isSettingsOpen,
     callTimeoutSeconds,
     callTime,
     callUser,
     callType,
+    callStats: callState.stats,
+    statsHistory: engine.getStatsHistory(),
+    videoQuality: callState.videoQuality,
+    isRemoteVideoSuspended: callState.isRemoteVideoSuspended,
     localVideoRef,
     remoteVideoRef,
     messages,
+    devicePreferences,
     toggleMute,
     toggleHold,
+    toggleHoldTone,
+    toggleScreenShare,
     toggleRecording,
+    respondToRecordingRequest,
     toggleChat,
     toggleSettings,
     endCall,
+    applyDeviceSettings,
     sendChatMessage,
+    toggleChatReaction,
     receiverId,
     appointmentId,
     isVideoCall,
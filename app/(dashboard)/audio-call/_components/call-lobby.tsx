@@ -0,0 +1,179 @@
+"use client"
+import { useEffect, useRef, useState } from "react"
+import { useSelector } from "react-redux"
+import Image from "next/image"
+import { CalendarClock, Loader2, PhoneIcon, Video } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useAuth } from "@/components/auth/auth-provider"
+import type { RootState } from "@/src/redux/store"
+import { SocketService } from "@/service/socket.service"
+import { CallAccessError, CallEngine } from "@/service/call.engine"
+import type { CallAppointment } from "@/service/socket.protocol"
+import DeviceCheck from "./device-check"
+
+// How soon to try again when the server still refuses after the countdown,
+// e.g. because the two clocks disagree
+const RETRY_INTERVAL_MS = 5000
+
+type LobbyStatus = "checking" | "waiting" | "ready" | "error"
+
+interface CallLobbyProps {
+  appointmentId: string
+  isVideoCall: boolean
+  onJoin: () => void
+}
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const pad = (value: number) => value.toString().padStart(2, "0")
+  return hours > 0 ? `${pad(hours)}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`
+}
+
+// Waiting room in front of an outgoing call: keeps checking the appointment's
+// call window and only lets the call start once the gateway accepts the join
+export default function CallLobby({ appointmentId, isVideoCall, onJoin }: CallLobbyProps) {
+  const { token, BASE_URL } = useAuth()
+  const callUser = useSelector((state: RootState) => state.call.user)
+
+  const [status, setStatus] = useState<LobbyStatus>("checking")
+  const [appointment, setAppointment] = useState<CallAppointment | null>(null)
+  const [startTime, setStartTime] = useState<Date | null>(null)
+  const [errorMessage, setErrorMessage] = useState("")
+  const [now, setNow] = useState(() => Date.now())
+
+  const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const isMountedRef = useRef(true)
+
+  const checkAccess = async () => {
+    if (retryTimeoutRef.current) {
+      clearTimeout(retryTimeoutRef.current)
+      retryTimeoutRef.current = null
+    }
+    setStatus("checking")
+
+    try {
+      await SocketService.getInstance().connect(token!, BASE_URL)
+      const joinedAppointment = await CallEngine.getInstance().joinAppointment(appointmentId)
+      if (!isMountedRef.current) return
+
+      setAppointment(joinedAppointment ?? null)
+      setStatus("ready")
+    } catch (error) {
+      if (!isMountedRef.current) return
+
+      const startsAt = error instanceof CallAccessError && error.startTime ? new Date(error.startTime) : null
+      setErrorMessage((error as Error).message || "Unable to join this call")
+
+      if (!startsAt) {
+        setStatus("error")
+        return
+      }
+
+      // Too early: count down and try again as soon as the window opens
+      setStartTime(startsAt)
+      setStatus("waiting")
+      const delay = Math.max(startsAt.getTime() - Date.now(), RETRY_INTERVAL_MS)
+      retryTimeoutRef.current = setTimeout(checkAccess, delay)
+    }
+  }
+
+  useEffect(() => {
+    isMountedRef.current = true
+    checkAccess()
+
+    return () => {
+      isMountedRef.current = false
+      if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current)
+    }
+  }, [appointmentId])
+
+  // Tick the countdown while waiting
+  useEffect(() => {
+    if (status !== "waiting") return
+
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [status])
+
+  const CallIcon = isVideoCall ? Video : PhoneIcon
+
+  return (
+    <div className="flex h-[90vh] items-center justify-center bg-gray-50 overflow-y-auto">
+      <div className="w-full max-w-lg bg-white rounded-xl shadow-sm p-8 my-auto flex flex-col items-center text-center">
+        <div className="relative w-24 h-24 rounded-full overflow-hidden border-2 border-emerald-500">
+          <Image
+            src={callUser?.img || "/placeholder.svg?height=96&width=96"}
+            alt={callUser?.name || "User"}
+            fill
+            className="object-cover"
+          />
+        </div>
+
+        <h2 className="text-xl font-medium text-gray-900 mt-4">{callUser?.name || "User"}</h2>
+        {callUser?.title && <p className="text-sm text-gray-500">{callUser.title}</p>}
+
+        {/* Appointment details */}
+        <div className="w-full mt-6 rounded-lg border border-gray-200 p-4 text-sm text-left space-y-1">
+          {appointment?.service?.name && (
+            <p className="font-medium text-gray-900">{appointment.service.name}</p>
+          )}
+          {startTime && (
+            <p className="flex items-center gap-2 text-gray-500">
+              <CalendarClock className="h-4 w-4" />
+              {startTime.toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}
+            </p>
+          )}
+          {appointment?.service?.duration && (
+            <p className="text-gray-500">{appointment.service.duration} minutes</p>
+          )}
+          <p className="text-gray-500">{isVideoCall ? "Video" : "Audio"} call</p>
+        </div>
+
+        {/* Devices & network */}
+        <div className="w-full mt-6">
+          <h3 className="text-base font-medium text-gray-900 text-left mb-3">Check your devices</h3>
+          <DeviceCheck isVideoCall={isVideoCall} />
+        </div>
+
+        {/* Access state */}
+        <div className="mt-6 min-h-[56px] flex flex-col items-center justify-center">
+          {status === "checking" && (
+            <p className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking your appointment...
+            </p>
+          )}
+          {status === "waiting" && startTime && (
+            <>
+              <p className="text-sm text-gray-500">Your session starts in</p>
+              <p className="text-3xl font-semibold text-[#004D49] tabular-nums">
+                {formatCountdown(startTime.getTime() - now)}
+              </p>
+            </>
+          )}
+          {status === "ready" && <p className="text-sm text-emerald-600">Your session is open. You can join now.</p>}
+          {status === "error" && (
+            <>
+              <p className="text-sm text-[#EB3D4D]">{errorMessage}</p>
+              <button className="text-sm text-teal-700 hover:underline mt-1" onClick={checkAccess}>
+                Try again
+              </button>
+            </>
+          )}
+        </div>
+
+        <Button
+          className="mt-6 w-full bg-[#004D49] hover:bg-[#003a37] text-white"
+          disabled={status !== "ready"}
+          onClick={onJoin}
+        >
+          <CallIcon className="h-4 w-4 mr-2" />
+          Start call
+        </Button>
+      </div>
+    </div>
+  )
+}
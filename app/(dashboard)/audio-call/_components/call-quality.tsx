@@ -0,0 +1,90 @@
+"use client"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { rateQuality, type CallQuality, type CallStatsSample } from "@/service/call.stats"
+import { useCall } from "./call-context"
+
+const SPARKLINE_POINTS = 30
+
+const qualityStyles: Record<CallQuality, { bars: number; color: string; label: string }> = {
+  excellent: { bars: 3, color: "bg-emerald-500", label: "Excellent connection" },
+  good: { bars: 2, color: "bg-amber-500", label: "Unstable connection" },
+  poor: { bars: 1, color: "bg-[#EB3D4D]", label: "Poor connection" },
+  unknown: { bars: 0, color: "bg-gray-300", label: "Measuring connection..." },
+}
+
+const formatMs = (value: number | null) => (value === null ? "–" : `${Math.round(value)} ms`)
+const formatKbps = (value: number) => (value >= 1000 ? `${(value / 1000).toFixed(1)} Mbps` : `${Math.round(value)} kbps`)
+
+// Inbound bitrate over the last minute or so
+function Sparkline({ samples }: { samples: CallStatsSample[] }) {
+  const recent = samples.slice(-SPARKLINE_POINTS)
+  if (recent.length < 2) return null
+
+  const max = Math.max(...recent.map((sample) => sample.inboundBitrate), 1)
+  const points = recent
+    .map((sample, index) => `${(index / (recent.length - 1)) * 100},${30 - (sample.inboundBitrate / max) * 28}`)
+    .join(" ")
+
+  return (
+    <svg viewBox="0 0 100 30" className="w-full h-8" preserveAspectRatio="none">
+      <polyline points={points} fill="none" stroke="#004D49" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+    </svg>
+  )
+}
+
+// Signal strength bars that expand into the live connection stats
+export default function CallQualityIndicator({ className = "" }: { className?: string }) {
+  const { callStats, statsHistory } = useCall()
+  const quality = rateQuality(callStats)
+  const style = qualityStyles[quality]
+
+  const rows: [string, string][] = callStats
+    ? [
+        ["Download", formatKbps(callStats.inboundBitrate)],
+        ["Upload", formatKbps(callStats.outboundBitrate)],
+        ["Packet loss", `${callStats.packetLoss.toFixed(1)}%`],
+        ["Jitter", formatMs(callStats.jitter)],
+        ["Round trip", formatMs(callStats.roundTripTime)],
+        ...(callStats.resolution
+          ? ([
+              ["Resolution", `${callStats.resolution.width}×${callStats.resolution.height}`],
+              ["Frame rate", callStats.frameRate === null ? "–" : `${Math.round(callStats.frameRate)} fps`],
+            ] as [string, string][])
+          : []),
+      ]
+    : []
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className={`flex items-end gap-0.5 h-4 ${className}`} title={style.label}>
+          {[1, 2, 3].map((bar) => (
+            <span
+              key={bar}
+              className={`w-1 rounded-sm ${bar <= style.bars ? style.color : "bg-gray-300"}`}
+              style={{ height: `${bar * 33}%` }}
+            />
+          ))}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 bg-white text-sm">
+        <p className="font-medium text-gray-900 mb-2">{style.label}</p>
+        {rows.length > 0 ? (
+          <>
+            <dl className="grid grid-cols-2 gap-y-1">
+              {rows.map(([label, value]) => (
+                <div key={label} className="contents">
+                  <dt className="text-gray-500">{label}</dt>
+                  <dd className="text-right tabular-nums">{value}</dd>
+                </div>
+              ))}
+            </dl>
+            <Sparkline samples={statsHistory} />
+          </>
+        ) : (
+          <p className="text-gray-500">Stats appear a few seconds after the call connects.</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,288 @@
+"use client"
+import { useEffect, useRef, useState } from "react"
+import { CheckCircle2, Loader2, Volume2, XCircle } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useAuth } from "@/components/auth/auth-provider"
+import { pickDevice, useMediaDevices } from "@/hooks/use-media-devices"
+import { deviceConstraint, loadDevicePreferences, saveDevicePreferences } from "@/lib/media-devices"
+import { IceConfigService } from "@/service/ice.config"
+import { SocketService } from "@/service/socket.service"
+import { runConnectivityCheck, type ConnectivityReport } from "@/service/network.check"
+
+const LEVEL_DOTS = 7
+const TEST_TONE_SECONDS = 1.5
+
+type CheckState = "pending" | "ok" | "failed"
+
+const StatusIcon = ({ state }: { state: CheckState }) => {
+  if (state === "pending") return <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+  if (state === "ok") return <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+  return <XCircle className="h-4 w-4 text-[#EB3D4D]" />
+}
+
+const describeMediaError = (error: unknown) =>
+  (error as DOMException)?.name === "NotAllowedError" ? "Access was blocked in the browser" : "Device could not be started"
+
+// Lets users confirm their camera, microphone, speakers and network work
+// before a call starts. Chosen devices are saved for the call itself.
+export default function DeviceCheck({ isVideoCall }: { isVideoCall: boolean }) {
+  const { user, token, BASE_URL } = useAuth()
+  const { cameras, microphones, speakers, isLoaded } = useMediaDevices(true, isVideoCall)
+
+  const [selectedCamera, setSelectedCamera] = useState("")
+  const [selectedMicrophone, setSelectedMicrophone] = useState("")
+  const [selectedSpeaker, setSelectedSpeaker] = useState("")
+
+  const [cameraState, setCameraState] = useState<CheckState>("pending")
+  const [cameraError, setCameraError] = useState("")
+  const [microphoneState, setMicrophoneState] = useState<CheckState>("pending")
+  const [microphoneError, setMicrophoneError] = useState("")
+  const [micLevel, setMicLevel] = useState(0)
+  const [isPlayingTone, setIsPlayingTone] = useState(false)
+  const [network, setNetwork] = useState<ConnectivityReport | null>(null)
+  const [isCheckingNetwork, setIsCheckingNetwork] = useState(false)
+
+  const previewRef = useRef<HTMLVideoElement>(null)
+
+  // Start from the saved devices
+  useEffect(() => {
+    if (!isLoaded) return
+    const preferences = loadDevicePreferences(user?.id)
+    setSelectedCamera((current) => pickDevice(cameras, current || preferences.cameraId))
+    setSelectedMicrophone((current) => pickDevice(microphones, current || preferences.microphoneId))
+    setSelectedSpeaker((current) => pickDevice(speakers, current || preferences.speakerId))
+  }, [isLoaded, cameras, microphones, speakers])
+
+  // Remember choices so the call opens the same devices
+  useEffect(() => {
+    if (!user || !isLoaded) return
+    saveDevicePreferences(user.id, {
+      cameraId: selectedCamera || undefined,
+      microphoneId: selectedMicrophone || undefined,
+      speakerId: selectedSpeaker || undefined,
+    })
+  }, [selectedCamera, selectedMicrophone, selectedSpeaker])
+
+  // Camera preview
+  useEffect(() => {
+    if (!isVideoCall || !isLoaded) return
+
+    let stream: MediaStream | null = null
+    let isCancelled = false
+    setCameraState("pending")
+
+    navigator.mediaDevices
+      .getUserMedia({ video: deviceConstraint(selectedCamera || undefined) })
+      .then((cameraStream) => {
+        stream = cameraStream
+        if (isCancelled) return cameraStream.getTracks().forEach((track) => track.stop())
+        if (previewRef.current) previewRef.current.srcObject = cameraStream
+        setCameraState("ok")
+      })
+      .catch((error) => {
+        console.error("Camera check failed:", error)
+        if (isCancelled) return
+        setCameraError(describeMediaError(error))
+        setCameraState("failed")
+      })
+
+    return () => {
+      isCancelled = true
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [isVideoCall, isLoaded, selectedCamera])
+
+  // Live microphone level
+  useEffect(() => {
+    if (!isLoaded) return
+
+    let stream: MediaStream | null = null
+    let context: AudioContext | null = null
+    let frame = 0
+    let isCancelled = false
+    setMicrophoneState("pending")
+    setMicLevel(0)
+
+    navigator.mediaDevices
+      .getUserMedia({ audio: deviceConstraint(selectedMicrophone || undefined) })
+      .then((micStream) => {
+        stream = micStream
+        if (isCancelled) return micStream.getTracks().forEach((track) => track.stop())
+
+        context = new AudioContext()
+        const analyser = context.createAnalyser()
+        analyser.fftSize = 512
+        context.createMediaStreamSource(micStream).connect(analyser)
+        const samples = new Uint8Array(analyser.fftSize)
+
+        const measure = () => {
+          analyser.getByteTimeDomainData(samples)
+          let sum = 0
+          for (const sample of samples) {
+            const value = (sample - 128) / 128
+            sum += value * value
+          }
+          const rms = Math.sqrt(sum / samples.length)
+          const level = Math.min(LEVEL_DOTS, Math.round(rms * LEVEL_DOTS * 4))
+          setMicLevel(level)
+          // Any audible input proves the microphone works
+          if (level > 0) setMicrophoneState("ok")
+          frame = requestAnimationFrame(measure)
+        }
+        measure()
+      })
+      .catch((error) => {
+        console.error("Microphone check failed:", error)
+        if (isCancelled) return
+        setMicrophoneError(describeMediaError(error))
+        setMicrophoneState("failed")
+      })
+
+    return () => {
+      isCancelled = true
+      cancelAnimationFrame(frame)
+      context?.close()
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [isLoaded, selectedMicrophone])
+
+  const runNetworkCheck = async () => {
+    setIsCheckingNetwork(true)
+    try {
+      // Test with the same TURN servers a call would get
+      if (token) IceConfigService.getInstance().setConfig(BASE_URL, token)
+      const configuration = await SocketService.getInstance().getRtcConfiguration()
+      setNetwork(await runConnectivityCheck(configuration))
+    } catch (error) {
+      console.error("Network check failed:", error)
+      setNetwork({ connected: false, udp: false, relay: false, candidateTypes: [], roundTripTime: null })
+    } finally {
+      setIsCheckingNetwork(false)
+    }
+  }
+
+  useEffect(() => {
+    runNetworkCheck()
+  }, [])
+
+  // Plays a short tone through the selected output device
+  const playTestTone = async () => {
+    setIsPlayingTone(true)
+    const context = new AudioContext()
+    try {
+      const destination = context.createMediaStreamDestination()
+      const oscillator = context.createOscillator()
+      const gain = context.createGain()
+      oscillator.frequency.value = 440
+      gain.gain.value = 0.2
+      oscillator.connect(gain).connect(destination)
+
+      const audio = new Audio()
+      audio.srcObject = destination.stream
+      if (selectedSpeaker && typeof audio.setSinkId === "function") {
+        await audio.setSinkId(selectedSpeaker)
+      }
+      await audio.play()
+      oscillator.start()
+      oscillator.stop(context.currentTime + TEST_TONE_SECONDS)
+      await new Promise((resolve) => (oscillator.onended = resolve))
+      audio.pause()
+    } catch (error) {
+      console.error("Speaker test failed:", error)
+    } finally {
+      context.close()
+      setIsPlayingTone(false)
+    }
+  }
+
+  const deviceSelect = (
+    devices: MediaDeviceInfo[],
+    value: string,
+    onChange: (value: string) => void,
+    fallbackLabel: string,
+  ) => (
+    <Select value={value} onValueChange={onChange} disabled={!devices.length}>
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder={devices.length ? `Select ${fallbackLabel.toLowerCase()}` : "No device found"} />
+      </SelectTrigger>
+      <SelectContent className="bg-white">
+        {devices.map((device) => (
+          <SelectItem key={device.deviceId} value={device.deviceId}>
+            {device.label || `${fallbackLabel} ${device.deviceId.substring(0, 5)}...`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  const networkState: CheckState = isCheckingNetwork || !network ? "pending" : network.connected ? "ok" : "failed"
+
+  return (
+    <div className="w-full space-y-4 text-left text-sm">
+      {/* Camera */}
+      {isVideoCall && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 font-medium text-gray-900">
+            <StatusIcon state={cameraState} /> Camera
+          </div>
+          {deviceSelect(cameras, selectedCamera, setSelectedCamera, "Camera")}
+          <video ref={previewRef} className="w-full aspect-video rounded-lg bg-black object-cover" autoPlay playsInline muted />
+          {cameraState === "failed" && <p className="text-[#EB3D4D]">{cameraError}</p>}
+        </div>
+      )}
+
+      {/* Microphone */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 font-medium text-gray-900">
+          <StatusIcon state={microphoneState} /> Microphone
+        </div>
+        {deviceSelect(microphones, selectedMicrophone, setSelectedMicrophone, "Microphone")}
+        <div className="flex space-x-1">
+          {Array.from({ length: LEVEL_DOTS }, (_, index) => (
+            <div key={index} className={`h-2 w-2 rounded-full ${index < micLevel ? "bg-teal-700" : "bg-gray-300"}`} />
+          ))}
+        </div>
+        {microphoneState === "pending" && <p className="text-gray-500">Say something to test your microphone</p>}
+        {microphoneState === "failed" && <p className="text-[#EB3D4D]">{microphoneError}</p>}
+      </div>
+
+      {/* Speakers */}
+      <div className="space-y-2">
+        <div className="font-medium text-gray-900">Speakers</div>
+        {speakers.length > 0 && deviceSelect(speakers, selectedSpeaker, setSelectedSpeaker, "Speaker")}
+        <button
+          className="flex items-center gap-1 text-teal-700 hover:underline disabled:opacity-60"
+          onClick={playTestTone}
+          disabled={isPlayingTone}
+        >
+          <Volume2 className="h-4 w-4" />
+          {isPlayingTone ? "Playing..." : "Play test sound"}
+        </button>
+      </div>
+
+      {/* Network */}
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 font-medium text-gray-900">
+            <StatusIcon state={networkState} /> Network
+          </div>
+          <button
+            className="text-teal-700 hover:underline disabled:opacity-60"
+            onClick={runNetworkCheck}
+            disabled={isCheckingNetwork}
+          >
+            Test again
+          </button>
+        </div>
+        {network && !isCheckingNetwork && (
+          <ul className="text-gray-500 space-y-0.5">
+            <li>Peer connection: {network.connected ? "working" : "failed"}</li>
+            <li>UDP (STUN): {network.udp ? "working" : "blocked"}</li>
+            <li>TURN relay: {network.relay ? "available" : "not available"}</li>
+            {network.roundTripTime !== null && <li>Round trip: {Math.round(network.roundTripTime)} ms</li>}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
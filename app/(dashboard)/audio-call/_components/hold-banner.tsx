@@ -0,0 +1,29 @@
+"use client"
+import { Volume2, VolumeX } from "lucide-react"
+import { useCall } from "./call-context"
+
+// Tells the participant who's been put on hold what's going on
+export default function HoldBanner({ peerName }: { peerName?: string }) {
+  const { isLocalHold, isRemoteHold, isHoldToneEnabled, toggleHoldTone } = useCall()
+
+  if (!isLocalHold && !isRemoteHold) return null
+
+  return (
+    <div className="flex items-center justify-center gap-3 bg-amber-50 border border-amber-200 text-amber-800 text-sm px-4 py-2 rounded-lg">
+      <span>
+        {isRemoteHold
+          ? `${peerName || "The other participant"} has put you on hold`
+          : "You have put the call on hold"}
+      </span>
+      {isRemoteHold && (
+        <button
+          className="flex items-center gap-1 text-amber-700 hover:underline"
+          onClick={toggleHoldTone}
+        >
+          {isHoldToneEnabled ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+          {isHoldToneEnabled ? "Mute hold tone" : "Play hold tone"}
+        </button>
+      )}
+    </div>
+  )
+}
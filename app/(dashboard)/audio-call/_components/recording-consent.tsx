@@ -0,0 +1,63 @@
+"use client"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { useCall } from "./call-context"
+
+// Asks for consent when the other side wants to record, and keeps a visible
+// recording notice on both sides for as long as the recording runs
+export default function RecordingConsent({ peerName }: { peerName?: string }) {
+  const { recordingStatus, respondToRecordingRequest, toggleRecording } = useCall()
+  const name = peerName || "The other participant"
+
+  return (
+    <>
+      <AlertDialog open={recordingStatus === "consent-requested"}>
+        <AlertDialogContent className="bg-white">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Allow recording?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {name} would like to record this call. Nothing is recorded unless you agree, and you can stop the
+              recording at any time.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => respondToRecordingRequest(false)}>Decline</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-[#004D49] hover:bg-[#003a37] text-white"
+              onClick={() => respondToRecordingRequest(true)}
+            >
+              Allow recording
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {recordingStatus === "requesting" && (
+        <div className="flex items-center gap-2 bg-gray-100 text-gray-600 text-sm px-3 py-1 rounded-full">
+          Waiting for {name} to allow recording...
+          <button className="text-teal-700 hover:underline" onClick={toggleRecording}>
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {(recordingStatus === "recording" || recordingStatus === "peer-recording") && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-[#EB3D4D] text-sm px-3 py-1 rounded-full">
+          <span className="w-2 h-2 rounded-full bg-[#EB3D4D] animate-pulse" />
+          {recordingStatus === "recording" ? "You are recording this call" : `${name} is recording this call`}
+          <button className="underline" onClick={toggleRecording}>
+            {recordingStatus === "recording" ? "Stop" : "Stop recording"}
+          </button>
+        </div>
+      )}
+    </>
+  )
+}
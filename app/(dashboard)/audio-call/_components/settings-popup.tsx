@@ -6,6 +6,10 @@ import { Slider } from "@/components/ui/slider"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Switch } from "@/components/ui/switch"
+import { useToast } from "@/components/ui/use-toast"
+import { pickDevice, useMediaDevices } from "@/hooks/use-media-devices"
+import { IceConfigService } from "@/service/ice.config"
+import { useCall } from "./call-context"
 
 interface SettingsPopupProps {
   isOpen: boolean
@@ -13,55 +17,44 @@ interface SettingsPopupProps {
 }
 
 export default function SettingsPopup({ isOpen, onClose }: SettingsPopupProps) {
+  const { isVideoCall, devicePreferences, applyDeviceSettings } = useCall()
+  const { cameras, microphones, speakers } = useMediaDevices(isOpen, isVideoCall)
   const [isSwitchChecked, setIsSwitchChecked] = useState(false)
-  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([])
-  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([])
-  const [speakers, setSpeakers] = useState<MediaDeviceInfo[]>([])
   const [selectedCamera, setSelectedCamera] = useState("")
   const [selectedMicrophone, setSelectedMicrophone] = useState("")
   const [selectedSpeaker, setSelectedSpeaker] = useState("")
+  const [isApplying, setIsApplying] = useState(false)
+  const [isRelayOnly, setIsRelayOnly] = useState(() => IceConfigService.getInstance().isRelayOnly())
+  const { toast } = useToast()
 
+  // Start from the saved devices, and re-pick if a selected one disappears
   useEffect(() => {
-    // Get available media devices
-    const getDevices = async () => {
-      try {
-        // Request permissions first to ensure we get labeled devices
-        await navigator.mediaDevices
-          .getUserMedia({ audio: true, video: true })
-          .catch((err) => console.log("Permission request failed, but we'll still try to get devices:", err))
-
-        const devices = await navigator.mediaDevices.enumerateDevices()
-
-        const videoDevices = devices.filter((device) => device.kind === "videoinput")
-        const audioInputDevices = devices.filter((device) => device.kind === "audioinput")
-        const audioOutputDevices = devices.filter((device) => device.kind === "audiooutput")
-
-        setCameras(videoDevices)
-        setMicrophones(audioInputDevices)
-        setSpeakers(audioOutputDevices)
-
-        // Set defaults
-        if (videoDevices.length) setSelectedCamera(videoDevices[0].deviceId)
-        if (audioInputDevices.length) setSelectedMicrophone(audioInputDevices[0].deviceId)
-        if (audioOutputDevices.length) setSelectedSpeaker(audioOutputDevices[0].deviceId)
-      } catch (error) {
-        console.error("Error getting media devices:", error)
-      }
-    }
+    setSelectedCamera((current) => pickDevice(cameras, current || devicePreferences.cameraId))
+    setSelectedMicrophone((current) => pickDevice(microphones, current || devicePreferences.microphoneId))
+    setSelectedSpeaker((current) => pickDevice(speakers, current || devicePreferences.speakerId))
+  }, [cameras, microphones, speakers])
 
-    if (isOpen) {
-      getDevices()
-    }
-  }, [isOpen])
-
-  const applySettings = () => {
-    // In a real implementation, you would apply these settings
-    // For example, by switching the active audio/video tracks
-    console.log("Applying settings:", {
-      camera: selectedCamera,
-      microphone: selectedMicrophone,
-      speaker: selectedSpeaker,
+  const applySettings = async () => {
+    setIsApplying(true)
+    await applyDeviceSettings({
+      cameraId: selectedCamera || undefined,
+      microphoneId: selectedMicrophone || undefined,
+      speakerId: selectedSpeaker || undefined,
     })
+
+    const iceConfig = IceConfigService.getInstance()
+    if (isRelayOnly !== iceConfig.isRelayOnly()) {
+      await iceConfig.setRelayOnly(isRelayOnly)
+      if (isRelayOnly && !iceConfig.hasTurnServers()) {
+        toast({
+          title: "No relay server available",
+          description: "Hiding your IP address needs a TURN server, so calls may fail to connect.",
+          variant: "destructive",
+        })
+      }
+    }
+    setIsApplying(false)
+    onClose()
   }
 
   return (
@@ -238,12 +231,25 @@ export default function SettingsPopup({ isOpen, onClose }: SettingsPopupProps) {
               </div>
             </div>
 
+            {/* Privacy */}
+            <div>
+              <div className="flex items-center justify-between">
+                <h3 className="text-base font-medium">Hide my IP address</h3>
+                <Switch checked={isRelayOnly} onCheckedChange={setIsRelayOnly} />
+              </div>
+              <p className="text-sm text-gray-500 mt-1">
+                Routes the call through a relay server so the other participant can&apos;t see your network address. May
+                slightly reduce call quality.
+              </p>
+            </div>
+
             {/* Apply Button */}
             <button
-              className="w-full bg-[#004D49] text-white py-2 rounded-md text-sm hover:bg-[#003a37] transition-colors"
+              className="w-full bg-[#004D49] text-white py-2 rounded-md text-sm hover:bg-[#003a37] transition-colors disabled:opacity-60"
               onClick={applySettings}
+              disabled={isApplying}
             >
-              Apply Settings
+              {isApplying ? "Applying..." : "Apply Settings"}
             </button>
           </div>
         </div>
@@ -4,21 +4,29 @@ import type { RootState } from "@/src/redux/store"
 import { setCallActive } from "@/src/redux/features/call/callSlice"
 import Image from "next/image"
 import { Button } from "@/components/ui/button"
-import { PhoneIcon, SettingsIcon } from "lucide-react"
+import { MonitorUp, PhoneIcon, SettingsIcon } from "lucide-react"
 import { IoMdMic, IoMdMicOff } from "react-icons/io"
 import { FiVideo } from "react-icons/fi"
 import { BsChatDots } from "react-icons/bs"
 import { GrStatusPlaceholder } from "react-icons/gr"
 import SettingsPopup from "../../audio-call/_components/settings-popup"
 import CallChat from "../../audio-call/_components/call-chat"
+import HoldBanner from "../../audio-call/_components/hold-banner"
+import CallQualityIndicator from "../../audio-call/_components/call-quality"
+import RecordingConsent from "../../audio-call/_components/recording-consent"
 import { useCall } from "../../audio-call/_components/call-context"
 
 export default function VideoCall() {
   const {
     callTime,
+    callStatus,
     isMuted,
-    isHolding,
+    isLocalHold,
     isRecording,
+    isScreenSharing,
+    isRemoteScreenSharing,
+    videoQuality,
+    isRemoteVideoSuspended,
     isChatOpen,
     isSettingsOpen,
     callUser,
@@ -26,6 +34,7 @@ export default function VideoCall() {
     toggleHold,
     toggleRecording,
     toggleChat,
+    toggleScreenShare,
     endCall,
     setIsChatOpen,
     setIsSettingsOpen,
@@ -57,23 +66,72 @@ export default function VideoCall() {
       >
         <div className="w-full">
           <div className="relative w-full h-[70vh] overflow-hidden">
-            {/* Remote video */}
+            {/* Remote video, shown uncropped as a presentation while the other side shares */}
             <video
               ref={remoteVideoRef}
-              className="w-full h-full object-cover"
+              className={`w-full h-full ${isRemoteScreenSharing ? "object-contain bg-black" : "object-cover"}`}
               autoPlay
               playsInline
               poster="/placeholder.svg?height=600&width=800"
             />
 
+            {isRemoteScreenSharing && (
+              <p className="absolute top-5 left-5 text-sm text-white bg-black bg-opacity-50 px-2 py-1 rounded">
+                {callUserFromRedux?.name || "User"} is presenting
+              </p>
+            )}
+
+            {/* The other side's connection can only carry audio for now */}
+            {isRemoteVideoSuspended && (
+              <div className="absolute inset-0 bg-black bg-opacity-70 flex items-center justify-center">
+                <p className="text-center text-white px-6">
+                  {callUserFromRedux?.name || "The other participant"}&apos;s video is paused due to a weak connection.
+                  <br />
+                  It will resume automatically.
+                </p>
+              </div>
+            )}
+
             {/* Local video (picture-in-picture) */}
             <div className="absolute top-5 right-5 w-[150px] h-[100px] rounded-lg overflow-hidden border-2 border-white shadow-lg">
-              <video ref={localVideoRef} className="w-full h-full object-cover" autoPlay playsInline muted />
+              <video
+                ref={localVideoRef}
+                className={`w-full h-full ${isScreenSharing ? "object-contain bg-black" : "object-cover"}`}
+                autoPlay
+                playsInline
+                muted
+              />
+              {videoQuality === "audio-only" && (
+                <span className="absolute inset-0 flex items-center justify-center text-[10px] text-white bg-black bg-opacity-70 text-center px-1">
+                  Video paused: weak connection
+                </span>
+              )}
+              {isScreenSharing && (
+                <span className="absolute bottom-1 left-1 text-[10px] text-white bg-black bg-opacity-50 px-1 rounded">
+                  You are presenting
+                </span>
+              )}
             </div>
 
-            <p className="absolute bottom-4 left-4 text-sm text-white bg-black bg-opacity-50 px-2 py-1 rounded">
+            <div className="absolute bottom-4 left-4 flex items-center gap-2 text-sm text-white bg-black bg-opacity-50 px-2 py-1 rounded">
               {formatTime(callTime)}
-            </p>
+              {callStatus === "connected" && <CallQualityIndicator />}
+            </div>
+
+            <div className="absolute top-5 left-1/2 -translate-x-1/2 flex flex-col items-center gap-2">
+              <HoldBanner peerName={callUserFromRedux?.name} />
+              <RecordingConsent peerName={callUserFromRedux?.name} />
+            </div>
+
+            {/* Reconnecting overlay */}
+            {callStatus === "reconnecting" && (
+              <div className="absolute inset-0 bg-black bg-opacity-60 flex items-center justify-center">
+                <div className="text-center text-white">
+                  <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-white mx-auto mb-3"></div>
+                  <p className="text-lg">Reconnecting...</p>
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
@@ -105,7 +163,7 @@ export default function VideoCall() {
                     className="rounded-full w-8 h-8 md:w-10 md:h-10 text-gray-400 cursor-pointer duration-300 ease-linear hover:bg-gray-100 flex items-center justify-center"
                     onClick={toggleHold}
                   >
-                    {isHolding ? (
+                    {isLocalHold ? (
                       <GrStatusPlaceholder className="h-4 w-4 md:h-5 md:w-5" />
                     ) : (
                       <Image
@@ -173,6 +231,20 @@ export default function VideoCall() {
                   </span>
                 </div>
 
+                {/* Screen share button */}
+                <div className="flex flex-col items-center gap-1 cursor-pointer" onClick={toggleScreenShare}>
+                  <div className={`rounded-full ${isScreenSharing ? "text-[#004D49]" : "text-[#D4D4D4]"}`}>
+                    <MonitorUp className="h-5 w-5 md:h-7 md:w-7" />
+                  </div>
+                  <span
+                    className={`text-xs md:text-sm inter-medium font-normal ${
+                      isScreenSharing ? "text-[#004D49]" : "text-[#A4A4A4]"
+                    }`}
+                  >
+                    {isScreenSharing ? "Stop sharing" : "Share"}
+                  </span>
+                </div>
+
                 {/* Settings button */}
                 <div
                   className="flex flex-col items-center gap-1 cursor-pointer"
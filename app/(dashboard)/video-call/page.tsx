@@ -1,11 +1,12 @@
 "use client"
 
-import { useEffect } from "react"
+import { useEffect, useState } from "react"
 import { useSearchParams } from "next/navigation"
 import { useAuth } from "@/components/auth/auth-provider"
 import { useToast } from "@/components/ui/use-toast"
 import { CallProvider } from "../audio-call/_components/call-context"
 import { useDispatch } from "react-redux"
+import CallLobby from "../audio-call/_components/call-lobby"
 import { setCallUser } from "@/src/redux/features/call/callSlice"
 import VideoCall from "./_components/video-call"
 
@@ -20,6 +21,8 @@ export default function VideoCallPage() {
   const isIncoming = searchParams.get("incoming") === "true"
   const callId = searchParams.get("callId")
   const offerParam = searchParams.get("offer")
+  // Outgoing calls wait in the lobby until the appointment can be joined
+  const [hasJoinedLobby, setHasJoinedLobby] = useState(false)
 
   useEffect(() => {
     // Set the call user in Redux
@@ -89,6 +92,12 @@ export default function VideoCallPage() {
     )
   }
 
+  if (!isIncoming && !hasJoinedLobby) {
+    return (
+      <CallLobby appointmentId={appointmentId} isVideoCall={true} onJoin={() => setHasJoinedLobby(true)} />
+    )
+  }
+
   return (
     <CallProvider
       receiverId={receiverId}
@@ -100,7 +100,11 @@ export default function ConversationList({ onConversationSelect }: ConversationL
               <div className="flex-1 min-w-0">
                 <p className="font-medium truncate">{otherUser.name}</p>
                 <p className="text-sm text-gray-500 truncate">
-                  {conversation.lastMessage?.message || "No messages yet"}
+                  {conversation.lastMessage?.deleted_at
+                    ? "This message was deleted"
+                    : conversation.lastMessage?.message ||
+                      conversation.lastMessage?.attachment?.name ||
+                      "No messages yet"}
                 </p>
               </div>
             </div>
@@ -2,30 +2,78 @@
 
 import type React from "react";
 
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
 import { useAppDispatch, useAppSelector } from "@/src/redux/hooks";
 import {
   fetchMessages,
+  fetchOlderMessages,
   sendMessage,
   addMessage,
   sendTypingStatus,
   stopTypingStatus,
   setUserTyping,
   resetAuthError,
+  updateMessageStatus,
+  messageStatusUpdated,
+  retryMessage,
+  discardMessage,
+  editMessage,
+  deleteMessage,
+  messageEdited,
+  messageDeleted,
+  toggleReaction,
+  reactionUpdated,
+  selectActiveMessages,
+  selectActiveHistory,
 } from "@/src/redux/features/chat/chatSlice";
+import type { DeleteScope, Message } from "@/service/chat.service";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
-import { RefreshCcw, Send, ArrowLeft } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  RefreshCcw,
+  Send,
+  ArrowLeft,
+  Check,
+  CheckCheck,
+  Clock,
+  AlertCircle,
+  ArrowDown,
+  Loader2,
+  Paperclip,
+  X,
+  MoreVertical,
+  Pencil,
+  Trash2,
+  Ban,
+} from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { useAuth } from "@/components/auth/auth-provider";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { SocketService } from "@/service/socket.service";
+import { ChatService } from "@/service/chat.service";
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  validateAttachment,
+} from "@/service/chat.attachments";
+import MessageAttachment from "./message-attachment";
+import MessageReactions from "@/components/chat/message-reactions";
+import type { MessagePayload } from "@/service/socket.protocol";
 import { debounce } from "lodash";
 import { useRouter } from "next/navigation";
 import { useToast } from "@/components/ui/use-toast";
 
+// How close to an edge (in px) counts as being at it
+const SCROLL_EDGE_THRESHOLD = 80;
+
 interface MessageAreaProps {
   onBackClick?: () => void;
   showBackButton?: boolean;
@@ -41,17 +89,36 @@ export default function MessageArea({
   const { user, logout } = useAuth();
   const {
     activeConversation,
-    messages,
     isLoading,
     isSending,
     error,
     typingUsers,
     authError,
   } = useAppSelector((state) => state.chat);
+  const messages = useAppSelector(selectActiveMessages);
+  const history = useAppSelector(selectActiveHistory);
   const [newMessage, setNewMessage] = useState("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const [isAtBottom, setIsAtBottom] = useState(true);
+  const isAtBottomRef = useRef(true);
+  // Set while older messages load, to keep the view still once they're in
+  const scrollRestoreRef = useRef<{
+    scrollHeight: number;
+    firstMessageId: string | undefined;
+  } | null>(null);
+  const [isPageVisible, setIsPageVisible] = useState(true);
   const [retryCount, setRetryCount] = useState(0);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  // Fraction uploaded, null when no upload is running
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(
+    null
+  );
+  const [editText, setEditText] = useState("");
 
   // Utility function to get initials from a name
   const getInitials = (name: string) => {
@@ -62,6 +129,28 @@ export default function MessageArea({
       .toUpperCase();
   };
 
+  const renderStatusTicks = ({ status, delivery }: Message) => {
+    if (delivery === "pending") {
+      return <Clock className="h-3 w-3 text-gray-400" aria-label="Sending" />;
+    }
+    if (delivery === "failed") {
+      return (
+        <AlertCircle className="h-3 w-3 text-red-500" aria-label="Not sent" />
+      );
+    }
+    if (status === "SENT") {
+      return <Check className="h-3 w-3 text-gray-400" aria-label="Sent" />;
+    }
+    return (
+      <CheckCheck
+        className={`h-3 w-3 ${
+          status === "READ" ? "text-blue-500" : "text-gray-400"
+        }`}
+        aria-label={status === "READ" ? "Read" : "Delivered"}
+      />
+    );
+  };
+
   // Utility function to format time
   const formatTime = (dateString: string) => {
     try {
@@ -76,10 +165,10 @@ export default function MessageArea({
     if (!activeConversation) return;
 
     const socketService = SocketService.getInstance();
-    socketService.setupTypingListeners(dispatch);
+    const unsubscribeTyping = socketService.setupTypingListeners(dispatch);
 
     // Handle incoming messages
-    const handleMessageReceived = (data: any) => {
+    const handleMessageReceived = (data: MessagePayload) => {
       if (data.data && data.data.conversation_id === activeConversation.id) {
         dispatch(addMessage(data.data));
         if (typingUsers[activeConversation.id]) {
@@ -90,12 +179,47 @@ export default function MessageArea({
       }
     };
 
-    socketService.onMessageReceived(handleMessageReceived);
+    const unsubscribeMessages = socketService.subscribe(
+      "messageReceived",
+      handleMessageReceived
+    );
+
+    const unsubscribeStatus = socketService.subscribe(
+      "messageStatusUpdated",
+      (data) => {
+        dispatch(messageStatusUpdated(data));
+      }
+    );
+
+    const unsubscribeEdited = socketService.subscribe(
+      "messageEdited",
+      (data) => {
+        dispatch(messageEdited(data));
+      }
+    );
+
+    const unsubscribeDeleted = socketService.subscribe(
+      "messageDeleted",
+      (data) => {
+        dispatch(messageDeleted(data));
+      }
+    );
+
+    const unsubscribeReactions = socketService.subscribe(
+      "messageReaction",
+      (data) => {
+        dispatch(reactionUpdated(data));
+      }
+    );
 
     // Cleanup
     return () => {
-      socketService.onMessageReceived(null);
-      // No need to remove typing listeners as socket.io handles it per event name
+      unsubscribeMessages();
+      unsubscribeStatus();
+      unsubscribeEdited();
+      unsubscribeDeleted();
+      unsubscribeReactions();
+      unsubscribeTyping();
     };
   }, [activeConversation, dispatch, typingUsers]);
 
@@ -107,10 +231,123 @@ export default function MessageArea({
     }
   }, [activeConversation, dispatch]);
 
-  // Scroll to bottom when messages change
+  // Track tab visibility so messages aren't marked read in a background tab
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      setIsPageVisible(document.visibilityState === "visible");
+    };
+
+    handleVisibilityChange();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, []);
+
+  // Mark incoming messages as read once they scroll into view
   useEffect(() => {
+    const container = messagesContainerRef.current;
+    if (!container || !isPageVisible) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          if (!entry.isIntersecting) return;
+
+          const messageId = (entry.target as HTMLElement).dataset.unreadId;
+          if (messageId) {
+            dispatch(updateMessageStatus({ messageId, status: "READ" }));
+          }
+          observer.unobserve(entry.target);
+        });
+      },
+      { root: container, threshold: 0.6 }
+    );
+
+    container
+      .querySelectorAll<HTMLElement>("[data-unread-id]")
+      .forEach((element) => observer.observe(element));
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [messages, isPageVisible, dispatch]);
+
+  // A file picked for one conversation shouldn't be sent to the next
+  useEffect(() => {
+    return () => {
+      uploadAbortRef.current?.abort();
+      setSelectedFile(null);
+    };
+  }, [activeConversation?.id]);
+
+  // Open each conversation at its latest message
+  useEffect(() => {
+    isAtBottomRef.current = true;
+    setIsAtBottom(true);
+    scrollRestoreRef.current = null;
+  }, [activeConversation?.id]);
+
+  // Older messages go in above what's on screen, so shift the scroll position
+  // by the height they added. Otherwise follow new messages, but only if the
+  // reader is already at the bottom or sent the message themselves.
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (!container) return;
+
+    const restore = scrollRestoreRef.current;
+    if (restore && messages[0]?.id !== restore.firstMessageId) {
+      container.scrollTop += container.scrollHeight - restore.scrollHeight;
+      scrollRestoreRef.current = null;
+      return;
+    }
+
+    const last = messages[messages.length - 1];
+    if (isAtBottomRef.current || last?.sender.id === user?.id) {
+      messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+    }
+  }, [messages, user?.id]);
+
+  const loadOlderMessages = () => {
+    const container = messagesContainerRef.current;
+    if (!activeConversation || !container) return;
+
+    scrollRestoreRef.current = {
+      scrollHeight: container.scrollHeight,
+      firstMessageId: messages[0]?.id,
+    };
+    dispatch(fetchOlderMessages(activeConversation.id))
+      .unwrap()
+      .catch((error) => {
+        scrollRestoreRef.current = null;
+        console.error("Failed to load older messages:", error);
+      });
+  };
+
+  const handleScroll = () => {
+    const container = messagesContainerRef.current;
+    if (!container) return;
+
+    const distanceFromBottom =
+      container.scrollHeight - container.scrollTop - container.clientHeight;
+    const atBottom = distanceFromBottom < SCROLL_EDGE_THRESHOLD;
+    isAtBottomRef.current = atBottom;
+    setIsAtBottom(atBottom);
+
+    if (
+      container.scrollTop < SCROLL_EDGE_THRESHOLD &&
+      history?.hasMore &&
+      !history.isLoadingOlder &&
+      !scrollRestoreRef.current
+    ) {
+      loadOlderMessages();
+    }
+  };
+
+  const jumpToLatest = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  };
 
   // Debounced typing indicator
   const debouncedTypingIndicator = debounce((isTyping: boolean) => {
@@ -161,9 +398,39 @@ export default function MessageArea({
     }
   };
 
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after removing it
+    e.target.value = "";
+    if (!file) return;
+
+    const problem = validateAttachment(file);
+    if (problem) {
+      toast({
+        title: "Can't attach file",
+        description: problem,
+        variant: "destructive",
+      });
+      return;
+    }
+    setSelectedFile(file);
+  };
+
+  const clearSelectedFile = () => {
+    uploadAbortRef.current?.abort();
+    setSelectedFile(null);
+  };
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || !activeConversation || !user) return;
+    if (
+      (!newMessage.trim() && !selectedFile) ||
+      uploadProgress !== null ||
+      !activeConversation ||
+      !user
+    ) {
+      return;
+    }
 
     const otherUser =
       activeConversation.creator.id === user.id
@@ -176,6 +443,38 @@ export default function MessageArea({
       clearTimeout(typingTimeoutRef.current);
     }
 
+    // Attachments are uploaded first; the message itself then shows up right
+    // away and is delivered from the outbox
+    let attachment = null;
+    if (selectedFile) {
+      const controller = new AbortController();
+      uploadAbortRef.current = controller;
+      setUploadProgress(0);
+      try {
+        attachment = await ChatService.getInstance().uploadAttachment(
+          selectedFile,
+          { onProgress: setUploadProgress, signal: controller.signal }
+        );
+      } catch (error) {
+        if ((error as Error).name !== "AbortError") {
+          console.error("Failed to upload attachment:", error);
+          toast({
+            title: "Error",
+            description: "Failed to upload attachment. Please try again.",
+            variant: "destructive",
+          });
+        }
+        return;
+      } finally {
+        uploadAbortRef.current = null;
+        setUploadProgress(null);
+      }
+    }
+
+    const text = newMessage;
+    setNewMessage("");
+    setSelectedFile(null);
+
     try {
       // Store user ID in localStorage for the ChatService to use
       localStorage.setItem("userId", user.id);
@@ -184,12 +483,13 @@ export default function MessageArea({
         sendMessage({
           receiverId: otherUser.id,
           conversationId: activeConversation.id,
-          message: newMessage,
+          message: text,
+          attachment,
+          sender: { id: user.id, name: user.name },
         })
       ).unwrap();
-
-      setNewMessage("");
     } catch (error) {
+      setNewMessage(text);
       console.error("Failed to send message:", error);
       toast({
         title: "Error",
@@ -199,6 +499,107 @@ export default function MessageArea({
     }
   };
 
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditText(message.message);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditText("");
+  };
+
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeConversation || !user || !editingMessageId) return;
+
+    const text = editText.trim();
+    const original = messages.find((m) => m.id === editingMessageId);
+    if (!text || text === original?.message) {
+      cancelEditing();
+      return;
+    }
+
+    const otherUser =
+      activeConversation.creator.id === user.id
+        ? activeConversation.participant
+        : activeConversation.creator;
+
+    try {
+      await dispatch(
+        editMessage({
+          receiverId: otherUser.id,
+          conversationId: activeConversation.id,
+          messageId: editingMessageId,
+          message: text,
+        })
+      ).unwrap();
+      cancelEditing();
+    } catch (error) {
+      console.error("Failed to edit message:", error);
+      toast({
+        title: "Error",
+        description: "Failed to edit message. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (message: Message, scope: DeleteScope) => {
+    if (!activeConversation || !user) return;
+
+    const otherUser =
+      activeConversation.creator.id === user.id
+        ? activeConversation.participant
+        : activeConversation.creator;
+
+    try {
+      await dispatch(
+        deleteMessage({
+          receiverId: otherUser.id,
+          conversationId: activeConversation.id,
+          messageId: message.id,
+          scope,
+        })
+      ).unwrap();
+    } catch (error) {
+      console.error("Failed to delete message:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete message. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleReaction = async (message: Message, emoji: string) => {
+    if (!activeConversation || !user) return;
+
+    const otherUser =
+      activeConversation.creator.id === user.id
+        ? activeConversation.participant
+        : activeConversation.creator;
+
+    try {
+      await dispatch(
+        toggleReaction({
+          receiverId: otherUser.id,
+          conversationId: activeConversation.id,
+          messageId: message.id,
+          emoji,
+          userId: user.id,
+        })
+      ).unwrap();
+    } catch (error) {
+      console.error("Failed to update reaction:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update reaction. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleRetry = () => {
     if (!activeConversation) return;
     setRetryCount((prev) => prev + 1);
@@ -290,127 +691,330 @@ export default function MessageArea({
         </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {isLoading ? (
-          <div className="space-y-4">
-            {Array.from({ length: 3 }).map((_, i) => (
-              <div
-                key={i}
-                className={`flex ${
-                  i % 2 === 0 ? "justify-start" : "justify-end"
-                }`}
-              >
-                <div className="flex max-w-[70%]">
-                  {i % 2 === 0 && (
-                    <Skeleton className="h-10 w-10 rounded-full mr-2" />
-                  )}
-                  <div>
-                    <Skeleton className={`h-16 w-40 rounded-lg`} />
-                    <Skeleton className="h-3 w-16 mt-1" />
+      <div className="relative flex-1 min-h-0">
+        <div
+          ref={messagesContainerRef}
+          onScroll={handleScroll}
+          className="h-full overflow-y-auto p-4 space-y-4"
+        >
+          {history?.isLoadingOlder && (
+            <div className="flex justify-center">
+              <Loader2
+                className="h-4 w-4 animate-spin text-gray-400"
+                aria-label="Loading older messages"
+              />
+            </div>
+          )}
+          {isLoading ? (
+            <div className="space-y-4">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <div
+                  key={i}
+                  className={`flex ${
+                    i % 2 === 0 ? "justify-start" : "justify-end"
+                  }`}
+                >
+                  <div className="flex max-w-[70%]">
+                    {i % 2 === 0 && (
+                      <Skeleton className="h-10 w-10 rounded-full mr-2" />
+                    )}
+                    <div>
+                      <Skeleton className={`h-16 w-40 rounded-lg`} />
+                      <Skeleton className="h-3 w-16 mt-1" />
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))}
-          </div>
-        ) : error ? (
-          <Alert variant="destructive" className="mb-4">
-            <AlertDescription className="flex flex-col items-center gap-2">
-              <p>{error}</p>
-              <Button
-                onClick={handleRetry}
-                variant="outline"
-                size="sm"
-                className="flex items-center gap-2"
-                disabled={retryCount >= 3}
-              >
-                <RefreshCcw className="h-4 w-4" />
-                Retry {retryCount > 0 ? `(${retryCount}/3)` : ""}
-              </Button>
-            </AlertDescription>
-          </Alert>
-        ) : messages.length === 0 ? (
-          <div className="flex h-full items-center justify-center text-gray-500">
-            No messages yet. Start the conversation!
-          </div>
-        ) : (
-          messages.map((message) => {
-            const isMe = message.sender.id === user?.id;
-            return (
-              <div
-                key={message.id}
-                className={`flex ${isMe ? "justify-end" : "justify-start"}`}
-              >
-                <div className="flex max-w-[70%]">
-                  {!isMe && (
-                    <Avatar className="h-8 w-8 mr-2 mt-1">
-                      <AvatarImage
-                        src={message.sender.avatar_url || "/placeholder.svg"}
-                        alt={message.sender.name}
-                      />
-                      <AvatarFallback>
-                        {getInitials(message.sender.name)}
-                      </AvatarFallback>
-                    </Avatar>
-                  )}
-                  <div>
-                    <div
-                      className={`rounded-lg p-3 ${
-                        isMe
-                          ? "bg-primary text-primary-foreground"
-                          : "bg-gray-200 text-gray-800"
-                      }`}
-                    >
-                      <p>{message.message}</p>
+              ))}
+            </div>
+          ) : error ? (
+            <Alert variant="destructive" className="mb-4">
+              <AlertDescription className="flex flex-col items-center gap-2">
+                <p>{error}</p>
+                <Button
+                  onClick={handleRetry}
+                  variant="outline"
+                  size="sm"
+                  className="flex items-center gap-2"
+                  disabled={retryCount >= 3}
+                >
+                  <RefreshCcw className="h-4 w-4" />
+                  Retry {retryCount > 0 ? `(${retryCount}/3)` : ""}
+                </Button>
+              </AlertDescription>
+            </Alert>
+          ) : messages.length === 0 ? (
+            <div className="flex h-full items-center justify-center text-gray-500">
+              No messages yet. Start the conversation!
+            </div>
+          ) : (
+            messages.map((message) => {
+              const isMe = message.sender.id === user?.id;
+              return (
+                <div
+                  key={message.id}
+                  className={`flex ${isMe ? "justify-end" : "justify-start"}`}
+                  data-unread-id={
+                    !isMe && message.status !== "READ" && !message.delivery
+                      ? message.id
+                      : undefined
+                  }
+                >
+                  <div className="flex max-w-[70%]">
+                    {!isMe && (
+                      <Avatar className="h-8 w-8 mr-2 mt-1">
+                        <AvatarImage
+                          src={message.sender.avatar_url || "/placeholder.svg"}
+                          alt={message.sender.name}
+                        />
+                        <AvatarFallback>
+                          {getInitials(message.sender.name)}
+                        </AvatarFallback>
+                      </Avatar>
+                    )}
+                    <div className="group relative">
+                      {isMe && !message.delivery && !message.deleted_at && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="absolute -left-8 top-1 h-6 w-6 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                            >
+                              <MoreVertical className="h-4 w-4" />
+                              <span className="sr-only">Message actions</span>
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            {message.message && (
+                              <DropdownMenuItem
+                                onClick={() => startEditing(message)}
+                              >
+                                <Pencil className="h-4 w-4 mr-2" />
+                                Edit
+                              </DropdownMenuItem>
+                            )}
+                            <DropdownMenuItem
+                              onClick={() => handleDelete(message, "me")}
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Delete for me
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => handleDelete(message, "everyone")}
+                              className="text-red-600"
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Delete for everyone
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                      <div
+                        className={`rounded-lg p-3 ${
+                          message.deleted_at
+                            ? "border text-gray-500"
+                            : isMe
+                              ? "bg-primary text-primary-foreground"
+                              : "bg-gray-200 text-gray-800"
+                        } ${message.delivery === "pending" ? "opacity-70" : ""}`}
+                      >
+                        {message.deleted_at ? (
+                          <p className="flex items-center gap-1 italic">
+                            <Ban className="h-4 w-4" />
+                            This message was deleted
+                          </p>
+                        ) : editingMessageId === message.id ? (
+                          <form
+                            onSubmit={handleSaveEdit}
+                            className="flex items-center gap-1"
+                          >
+                            <Input
+                              value={editText}
+                              onChange={(e) => setEditText(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === "Escape") cancelEditing();
+                              }}
+                              autoFocus
+                              className="h-8 bg-background text-foreground"
+                            />
+                            <Button
+                              type="submit"
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              disabled={!editText.trim()}
+                            >
+                              <Check className="h-4 w-4" />
+                              <span className="sr-only">Save</span>
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={cancelEditing}
+                            >
+                              <X className="h-4 w-4" />
+                              <span className="sr-only">Cancel</span>
+                            </Button>
+                          </form>
+                        ) : (
+                          <>
+                            {message.attachment && (
+                              <MessageAttachment
+                                attachment={message.attachment}
+                                isMe={isMe}
+                              />
+                            )}
+                            {message.message && (
+                              <p className={message.attachment ? "mt-2" : ""}>
+                                {message.message}
+                              </p>
+                            )}
+                          </>
+                        )}
+                      </div>
+                      {!message.delivery && !message.deleted_at && (
+                        <MessageReactions
+                          reactions={message.reactions}
+                          currentUserId={user?.id}
+                          onToggle={(emoji) =>
+                            handleToggleReaction(message, emoji)
+                          }
+                          align={isMe ? "end" : "start"}
+                        />
+                      )}
+                      <p
+                        className={`flex items-center gap-1 text-xs text-gray-500 mt-1 ${
+                          isMe ? "justify-end" : ""
+                        }`}
+                      >
+                        {formatTime(message.created_at)}
+                        {message.edited_at && !message.deleted_at && (
+                          <span>· edited</span>
+                        )}
+                        {isMe && renderStatusTicks(message)}
+                      </p>
+                      {message.delivery === "failed" && message.client_id && (
+                        <p className="flex items-center justify-end gap-2 text-xs text-red-500">
+                          Not sent
+                          <button
+                            className="underline"
+                            onClick={() =>
+                              dispatch(retryMessage(message.client_id!))
+                            }
+                          >
+                            Retry
+                          </button>
+                          <button
+                            className="underline"
+                            onClick={() =>
+                              dispatch(discardMessage(message.client_id!))
+                            }
+                          >
+                            Delete
+                          </button>
+                        </p>
+                      )}
                     </div>
-                    <p className="text-xs text-gray-500 mt-1">
-                      {formatTime(message.created_at)}
-                    </p>
                   </div>
                 </div>
-              </div>
-            );
-          })
-        )}
-        {isSomeoneElseTyping && (
-          <div className="flex justify-start">
-            <div className="flex max-w-[70%]">
-              <Avatar className="h-8 w-8 mr-2 mt-1">
-                <AvatarImage
-                  src={typingUser.avatarUrl || "/placeholder.svg"}
-                  alt={typingUser.userName}
-                />
-                <AvatarFallback>
-                  {getInitials(typingUser.userName)}
-                </AvatarFallback>
-              </Avatar>
-              <div>
-                <div className="bg-gray-200 text-gray-800 rounded-lg p-3">
-                  <div className="flex space-x-1">
-                    <div
-                      className="w-2 h-2 bg-gray-500 rounded-full animate-bounce"
-                      style={{ animationDelay: "0ms" }}
-                    ></div>
-                    <div
-                      className="w-2 h-2 bg-gray-500 rounded-full animate-bounce"
-                      style={{ animationDelay: "300ms" }}
-                    ></div>
-                    <div
-                      className="w-2 h-2 bg-gray-500 rounded-full animate-bounce"
-                      style={{ animationDelay: "600ms" }}
-                    ></div>
+              );
+            })
+          )}
+          {isSomeoneElseTyping && (
+            <div className="flex justify-start">
+              <div className="flex max-w-[70%]">
+                <Avatar className="h-8 w-8 mr-2 mt-1">
+                  <AvatarImage
+                    src={typingUser.avatarUrl || "/placeholder.svg"}
+                    alt={typingUser.userName}
+                  />
+                  <AvatarFallback>
+                    {getInitials(typingUser.userName)}
+                  </AvatarFallback>
+                </Avatar>
+                <div>
+                  <div className="bg-gray-200 text-gray-800 rounded-lg p-3">
+                    <div className="flex space-x-1">
+                      <div
+                        className="w-2 h-2 bg-gray-500 rounded-full animate-bounce"
+                        style={{ animationDelay: "0ms" }}
+                      ></div>
+                      <div
+                        className="w-2 h-2 bg-gray-500 rounded-full animate-bounce"
+                        style={{ animationDelay: "300ms" }}
+                      ></div>
+                      <div
+                        className="w-2 h-2 bg-gray-500 rounded-full animate-bounce"
+                        style={{ animationDelay: "600ms" }}
+                      ></div>
+                    </div>
                   </div>
                 </div>
               </div>
             </div>
-          </div>
+          )}
+          <div ref={messagesEndRef} />
+        </div>
+        {!isAtBottom && messages.length > 0 && (
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={jumpToLatest}
+            className="absolute bottom-4 left-1/2 -translate-x-1/2 shadow-md"
+          >
+            <ArrowDown className="h-4 w-4 mr-1" />
+            Jump to latest
+          </Button>
         )}
-        <div ref={messagesEndRef} />
       </div>
 
+      {selectedFile && (
+        <div className="border-t px-3 pt-3">
+          <div className="flex items-center gap-2 rounded-md bg-gray-100 p-2 text-sm">
+            <Paperclip className="h-4 w-4 shrink-0 text-gray-500" />
+            <span className="flex-1 truncate">{selectedFile.name}</span>
+            {uploadProgress !== null && (
+              <Progress value={uploadProgress * 100} className="h-2 w-24" />
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={clearSelectedFile}
+            >
+              <X className="h-4 w-4" />
+              <span className="sr-only">
+                {uploadProgress !== null ? "Cancel upload" : "Remove file"}
+              </span>
+            </Button>
+          </div>
+        </div>
+      )}
+
       <form
         onSubmit={handleSendMessage}
-        className="border-t p-3 flex space-x-2"
+        className={`p-3 flex space-x-2 ${selectedFile ? "" : "border-t"}`}
       >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_ATTACHMENT_TYPES}
+          onChange={handleFileSelected}
+          className="hidden"
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isSending || uploadProgress !== null}
+        >
+          <Paperclip className="h-4 w-4" />
+          <span className="sr-only">Attach file</span>
+        </Button>
         <Input
           value={newMessage}
           onChange={handleInputChange}
@@ -421,7 +1025,11 @@ export default function MessageArea({
         <Button
           type="submit"
           size="icon"
-          disabled={isSending || !newMessage.trim()}
+          disabled={
+            isSending ||
+            uploadProgress !== null ||
+            (!newMessage.trim() && !selectedFile)
+          }
         >
           <Send className="h-4 w-4" />
           <span className="sr-only">Send</span>
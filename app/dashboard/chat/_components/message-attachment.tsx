@@ -0,0 +1,70 @@
+"use client";
+
+import { Download, FileText } from "lucide-react";
+import type { MessageAttachment as Attachment } from "@/service/chat.attachments";
+
+interface MessageAttachmentProps {
+  attachment: Attachment;
+  isMe: boolean;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export default function MessageAttachment({
+  attachment,
+  isMe,
+}: MessageAttachmentProps) {
+  switch (attachment.kind) {
+    case "image":
+      return (
+        <a href={attachment.url} target="_blank" rel="noopener noreferrer">
+          <img
+            src={attachment.thumbnail_url || attachment.url}
+            alt={attachment.name}
+            className="max-h-64 max-w-full rounded-md object-cover"
+          />
+        </a>
+      );
+    case "video":
+      return (
+        <video
+          src={attachment.url}
+          poster={attachment.thumbnail_url}
+          controls
+          preload="metadata"
+          className="max-h-64 max-w-full rounded-md bg-black"
+        />
+      );
+    case "audio":
+      return (
+        <audio
+          src={attachment.url}
+          controls
+          preload="metadata"
+          className="max-w-full"
+        />
+      );
+    default:
+      return (
+        <a
+          href={attachment.url}
+          download={attachment.name}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`flex items-center gap-3 rounded-md p-2 ${
+            isMe ? "bg-primary-foreground/10" : "bg-white/60"
+          }`}
+        >
+          <FileText className="h-8 w-8 shrink-0" />
+          <div className="min-w-0">
+            <p className="truncate text-sm font-medium">{attachment.name}</p>
+            <p className="text-xs opacity-70">{formatSize(attachment.size)}</p>
+          </div>
+          <Download className="h-4 w-4 shrink-0" aria-label="Download" />
+        </a>
+      );
+  }
+}
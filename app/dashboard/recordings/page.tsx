@@ -0,0 +1,34 @@
+"use client"
+import { useAuth } from "@/components/auth/auth-provider"
+import { redirect, useSearchParams } from "next/navigation"
+import DashboardLayout from "@/components/dashboard/dashboard-layout"
+import RecordingsList from "@/components/dashboard/recordings-list"
+
+export default function RecordingsPage() {
+  const { user, token, isLoading } = useAuth()
+  const searchParams = useSearchParams()
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (!user || !token) {
+    redirect("/")
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        <h1 className="text-2xl font-bold mb-6">Recordings</h1>
+        <RecordingsList
+          appointmentId={searchParams.get("appointment") || undefined}
+          contactId={searchParams.get("contact") || undefined}
+        />
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -5,6 +5,14 @@ import type React from "react";
 import { createContext, useContext, useEffect, useState } from "react";
 import { useRouter, usePathname } from "next/navigation";
 import { useToast } from "@/components/ui/use-toast";
+import { useAppDispatch } from "@/src/redux/hooks";
+import {
+  hydrateCallHistory,
+  loadStoredCallHistory,
+  resetCallHistory,
+} from "@/src/redux/features/callHistory/callHistorySlice";
+import { chatUserChanged, resetChat } from "@/src/redux/features/chat/chatSlice";
+import { SocketService } from "@/service/socket.service";
 
 type User = {
   id: string;
@@ -33,6 +41,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const router = useRouter();
   const pathname = usePathname();
   const { toast } = useToast();
+  const dispatch = useAppDispatch();
 
   const BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:4001";
 
@@ -54,6 +63,21 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     localStorage.setItem("BASE_URL", BASE_URL);
   }, [pathname, router, BASE_URL]);
 
+  // Call history, the chat outbox and buffered recordings are kept per user,
+  // so they can only be picked up once we know who signed in. This runs
+  // after mount, so server and client render the same markup.
+  useEffect(() => {
+    if (!user?.id) return;
+    SocketService.getInstance().setCurrentUser(user.id);
+    dispatch(chatUserChanged(user.id));
+    dispatch(
+      hydrateCallHistory({
+        userId: user.id,
+        history: loadStoredCallHistory(user.id),
+      })
+    );
+  }, [user?.id, dispatch]);
+
   const fetchUserProfile = async (authToken: string) => {
     try {
       const res = await fetch(`${BASE_URL}/api/auth/me`, {
@@ -130,6 +154,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const logout = () => {
     localStorage.removeItem("token");
     localStorage.removeItem("userEmail");
+    dispatch(resetCallHistory());
+    dispatch(resetChat());
+    SocketService.getInstance().setCurrentUser(null);
     setToken(null);
     setUser(null);
     router.push("/");
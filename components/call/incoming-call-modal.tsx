@@ -1,92 +1,81 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useRef } from "react"
 import { useRouter } from "next/navigation"
 import { useAuth } from "@/components/auth/auth-provider"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Phone, PhoneOff } from "lucide-react"
 import { SocketService } from "@/service/socket.service"
+import { useCallEngine } from "@/hooks/use-call-engine"
+import { useAppDispatch } from "@/src/redux/hooks"
+import { addCallHistoryEntry } from "@/src/redux/features/callHistory/callHistorySlice"
 
 export default function IncomingCallModal() {
   const { token, BASE_URL } = useAuth()
   const router = useRouter()
-  const [incomingCall, setIncomingCall] = useState<{
-    callId: string
-    caller: string
-    appointmentId: string
-    isDoctorCall: boolean
-    offer: RTCSessionDescriptionInit
-  } | null>(null)
-  const [isVisible, setIsVisible] = useState(false)
-  const [ringtone, setRingtone] = useState<HTMLAudioElement | null>(null)
+  const dispatch = useAppDispatch()
+  const { state: callState, engine } = useCallEngine()
+  const ringtoneRef = useRef<HTMLAudioElement | null>(null)
 
-  useEffect(() => {
-    // Create audio element for ringtone
-    const audio = new Audio("/ringtone.mp3")
-    audio.loop = true
-    setRingtone(audio)
+  const isRinging = callState.status === "ringing" && callState.direction === "incoming"
 
-    // Connect to socket
+  // Connect to socket so incoming calls reach the call engine
+  useEffect(() => {
     if (token) {
-      const socketService = SocketService.getInstance()
-      socketService.connect(token, BASE_URL)
+      SocketService.getInstance().connect(token, BASE_URL)
+    }
+  }, [token, BASE_URL])
 
-      // Set up event listeners
-      socketService.onIncomingCall((data) => {
-        console.log("Incoming call received in modal:", data)
-        setIncomingCall(data)
-        setIsVisible(true)
-        if (audio) {
-          audio.currentTime = 0
-          audio.play().catch((err) => console.error("Error playing ringtone:", err))
-        }
-      })
+  // Play the ringtone while a call is ringing
+  useEffect(() => {
+    if (!isRinging) return
 
-      socketService.onCallCancelled((data) => {
-        console.log("Call cancelled:", data)
-        if (incomingCall && incomingCall.callId === data.callId) {
-          hideModal()
-        }
-      })
+    const audio = new Audio("/ringtone.mp3")
+    audio.loop = true
+    audio.play().catch((err) => console.error("Error playing ringtone:", err))
+    ringtoneRef.current = audio
 
-      return () => {
-        socketService.cleanup()
-        audio.pause()
-      }
+    return () => {
+      audio.pause()
+      ringtoneRef.current = null
     }
-  }, [token, BASE_URL])
+  }, [isRinging])
+
+  // Record calls that stopped ringing before they were answered
+  useEffect(() => {
+    if (callState.status !== "ended" || callState.direction !== "incoming" || callState.connectedAt !== null) return
+    if (callState.endReason !== "missed" && callState.endReason !== "declined") return
+
+    dispatch(
+      addCallHistoryEntry({
+        status: callState.endReason === "missed" ? "missed" : "rejected",
+        direction: "incoming",
+        peerId: callState.peerId!,
+        appointmentId: callState.appointmentId!,
+        isVideoCall: callState.isVideoCall,
+      }),
+    )
+    engine.reset()
+  }, [callState.status])
 
   const acceptCall = () => {
-    if (!incomingCall) return
+    const { callId, peerId, appointmentId, offer, isVideoCall } = callState
+    if (!isRinging || !offer) return
 
-    hideModal()
-    const isVideoCall = incomingCall.offer.sdp?.includes("m=video") || false
+    ringtoneRef.current?.pause()
     const callPath = isVideoCall ? "/video-call" : "/audio-call"
 
     router.push(
-      `${callPath}?receiver=${incomingCall.caller}&appointment=${incomingCall.appointmentId}&incoming=true&callId=${incomingCall.callId}&offer=${encodeURIComponent(JSON.stringify(incomingCall.offer))}`,
+      `${callPath}?receiver=${peerId}&appointment=${appointmentId}&incoming=true&callId=${callId}&offer=${encodeURIComponent(JSON.stringify(offer))}`,
     )
   }
 
   const rejectCall = () => {
-    if (!incomingCall) return
-
-    const socketService = SocketService.getInstance()
-    socketService.rejectCall(incomingCall.callId)
-
-    hideModal()
-  }
-
-  const hideModal = () => {
-    setIsVisible(false)
-    setIncomingCall(null)
-    if (ringtone) {
-      ringtone.pause()
-    }
+    engine.declineCall()
   }
 
-  if (!isVisible || !incomingCall) {
+  if (!isRinging) {
     return null
   }
 
@@ -98,7 +87,7 @@ export default function IncomingCallModal() {
         </CardHeader>
         <CardContent className="text-center">
           <p className="mb-4">
-            {incomingCall.isDoctorCall ? "Your coach is calling you" : "Your client is calling you"}
+            {callState.isDoctorCall ? "Your coach is calling you" : "Your client is calling you"}
           </p>
           <div className="flex justify-center space-x-4 mt-6">
             <Button variant="destructive" size="lg" className="rounded-full" onClick={rejectCall}>
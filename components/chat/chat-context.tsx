@@ -58,7 +58,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
       socketService.connect(token, BASE_URL);
 
       // Set up socket event handlers
-      socketService.onMessageReceived((data) => {
+      const unsubscribe = socketService.subscribe("messageReceived", (data) => {
         // Add the new message to the messages list if it's for the active conversation
         if (
           activeConversation &&
@@ -78,6 +78,8 @@ export function ChatProvider({ children }: { children: ReactNode }) {
 
       // Load conversations
       refreshConversations();
+
+      return unsubscribe;
     }
   }, [token, BASE_URL, user]);
 
@@ -118,7 +120,8 @@ export function ChatProvider({ children }: { children: ReactNode }) {
   const loadMessages = async (conversationId: string) => {
     try {
       setIsLoading(true);
-      const messagesData = await chatService.getMessages(conversationId);
+      const { messages: messagesData } =
+        await chatService.getMessages(conversationId);
       setMessages(messagesData);
     } catch (error) {
       console.error("Error loading messages:", error);
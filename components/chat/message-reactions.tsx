@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import { SmilePlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  REACTION_EMOJIS,
+  type MessageReaction,
+} from "@/service/chat.reactions";
+
+interface MessageReactionsProps {
+  reactions?: MessageReaction[];
+  currentUserId?: string;
+  onToggle: (emoji: string) => void;
+  // Lines the chips up with the side the message is on
+  align?: "start" | "end";
+}
+
+// Reaction counts under a message, plus a picker to add one. Clicking a
+// reaction you've already used removes it.
+export default function MessageReactions({
+  reactions = [],
+  currentUserId,
+  onToggle,
+  align = "start",
+}: MessageReactionsProps) {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  return (
+    <div
+      className={`mt-1 flex flex-wrap items-center gap-1 ${
+        align === "end" ? "justify-end" : ""
+      }`}
+    >
+      {reactions.map((reaction) => {
+        const isMine =
+          !!currentUserId && reaction.user_ids.includes(currentUserId);
+        return (
+          <button
+            key={reaction.emoji}
+            type="button"
+            onClick={() => onToggle(reaction.emoji)}
+            aria-pressed={isMine}
+            className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${
+              isMine
+                ? "border-blue-300 bg-blue-50 text-blue-700"
+                : "border-gray-200 bg-white text-gray-600"
+            }`}
+          >
+            <span>{reaction.emoji}</span>
+            <span>{reaction.user_ids.length}</span>
+          </button>
+        );
+      })}
+      <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-gray-400"
+          >
+            <SmilePlus className="h-4 w-4" />
+            <span className="sr-only">Add reaction</span>
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="flex w-auto gap-1 p-1" align={align}>
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => {
+                onToggle(emoji);
+                setIsPickerOpen(false);
+              }}
+              className="rounded p-1 text-lg hover:bg-gray-100"
+            >
+              {emoji}
+            </button>
+          ))}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
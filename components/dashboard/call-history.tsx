@@ -0,0 +1,204 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useAuth } from "@/components/auth/auth-provider";
+import { useRouter } from "next/navigation";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Phone,
+  PhoneIncoming,
+  PhoneMissed,
+  PhoneOff,
+  PhoneOutgoing,
+  Video,
+} from "lucide-react";
+import { useAppDispatch, useAppSelector } from "@/src/redux/hooks";
+import {
+  markMissedCallsSeen,
+  type CallHistoryEntry,
+} from "@/src/redux/features/callHistory/callHistorySlice";
+import type { CallQuality } from "@/service/call.stats";
+
+type Contact = {
+  id: string;
+  name: string;
+  avatar_url?: string;
+};
+
+const statusLabels: Record<CallHistoryEntry["status"], string> = {
+  missed: "Missed",
+  rejected: "Declined",
+  "not-answered": "No answer",
+  completed: "Completed",
+};
+
+const qualityLabels: Record<CallQuality, string> = {
+  excellent: "Excellent quality",
+  good: "Good quality",
+  poor: "Poor quality",
+  unknown: "",
+};
+
+export default function CallHistory() {
+  const [contacts, setContacts] = useState<Record<string, Contact>>({});
+  const { token, BASE_URL } = useAuth();
+  const router = useRouter();
+  const dispatch = useAppDispatch();
+  const entries = useAppSelector((state) => state.callHistory.entries);
+
+  // Opening the history counts as seeing any missed calls
+  useEffect(() => {
+    dispatch(markMissedCallsSeen());
+  }, [dispatch, entries.length]);
+
+  useEffect(() => {
+    if (token) {
+      fetchContacts();
+    }
+  }, [token]);
+
+  const fetchContacts = async () => {
+    try {
+      const res = await fetch(`${BASE_URL}/api/chat/user`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!res.ok) {
+        throw new Error("Failed to fetch users");
+      }
+
+      const data = await res.json();
+      const byId: Record<string, Contact> = {};
+      for (const contact of data.data as Contact[]) {
+        byId[contact.id] = contact;
+      }
+      setContacts(byId);
+    } catch (error) {
+      // Entries still render with a fallback name
+      console.error("Error fetching users:", error);
+    }
+  };
+
+  const callBack = (entry: CallHistoryEntry) => {
+    router.push(
+      `/call?receiver=${entry.peerId}&appointment=${entry.appointmentId}&video=${entry.isVideoCall}`
+    );
+  };
+
+  const formatDuration = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins.toString().padStart(2, "0")}:${secs
+      .toString()
+      .padStart(2, "0")}`;
+  };
+
+  const getInitials = (name: string) => {
+    return name
+      .split(" ")
+      .map((n) => n[0])
+      .join("")
+      .toUpperCase();
+  };
+
+  const getStatusIcon = (entry: CallHistoryEntry) => {
+    if (entry.status === "missed") {
+      return <PhoneMissed className="h-4 w-4 text-red-500" />;
+    }
+    if (entry.status !== "completed") {
+      return <PhoneOff className="h-4 w-4 text-gray-500" />;
+    }
+    return entry.direction === "incoming" ? (
+      <PhoneIncoming className="h-4 w-4 text-green-600" />
+    ) : (
+      <PhoneOutgoing className="h-4 w-4 text-green-600" />
+    );
+  };
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-10">
+        <p className="text-gray-500">No calls yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry) => {
+        const contact = contacts[entry.peerId];
+        const name = contact?.name || "Unknown contact";
+
+        return (
+          <Card key={entry.id} className="overflow-hidden">
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <Avatar>
+                    <AvatarImage
+                      src={contact?.avatar_url || "/placeholder.svg"}
+                      alt={name}
+                    />
+                    <AvatarFallback>{getInitials(name)}</AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <p className="font-medium">{name}</p>
+                    <div className="flex items-center space-x-2 text-sm text-gray-500">
+                      {getStatusIcon(entry)}
+                      <span>
+                        {entry.isVideoCall ? "Video" : "Audio"} call
+                        {entry.duration !== undefined &&
+                          ` · ${formatDuration(entry.duration)}`}
+                      </span>
+                      {entry.qualityReport &&
+                        entry.qualityReport.quality !== "unknown" && (
+                          <Badge
+                            variant={
+                              entry.qualityReport.quality === "poor"
+                                ? "destructive"
+                                : "outline"
+                            }
+                          >
+                            {qualityLabels[entry.qualityReport.quality]}
+                          </Badge>
+                        )}
+                      {entry.status !== "completed" && (
+                        <Badge
+                          variant={
+                            entry.status === "missed"
+                              ? "destructive"
+                              : "secondary"
+                          }
+                        >
+                          {statusLabels[entry.status]}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-400">
+                      {new Date(entry.timestamp).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => callBack(entry)}
+                  title="Call back"
+                >
+                  {entry.isVideoCall ? (
+                    <Video className="h-4 w-4" />
+                  ) : (
+                    <Phone className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
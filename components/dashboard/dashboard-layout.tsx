@@ -6,9 +6,11 @@ import { useState } from "react"
 import { useAuth } from "@/components/auth/auth-provider"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
-import { LogOut, Menu, X, MessageSquare, Phone } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { LogOut, Menu, X, MessageSquare, Phone, Film } from "lucide-react"
 import Link from "next/link"
 import IncomingCallModal from "@/components/call/incoming-call-modal"
+import { useAppSelector } from "@/src/redux/hooks"
 
 export default function DashboardLayout({
   children,
@@ -17,6 +19,7 @@ export default function DashboardLayout({
 }) {
   const { user, logout } = useAuth()
   const [sidebarOpen, setSidebarOpen] = useState(false)
+  const unseenMissedCount = useAppSelector((state) => state.callHistory.unseenMissedCount)
 
   const toggleSidebar = () => setSidebarOpen(!sidebarOpen)
 
@@ -73,6 +76,18 @@ export default function DashboardLayout({
             >
               <Phone className="mr-2 h-4 w-4" />
               Call History
+              {unseenMissedCount > 0 && (
+                <Badge variant="destructive" className="ml-auto">
+                  {unseenMissedCount}
+                </Badge>
+              )}
+            </Link>
+            <Link
+              href="/dashboard/recordings"
+              className="flex items-center px-4 py-2 text-gray-700 rounded-md hover:bg-gray-100"
+            >
+              <Film className="mr-2 h-4 w-4" />
+              Recordings
             </Link>
             <Link
               href="/dashboard/settings"
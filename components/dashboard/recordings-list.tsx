@@ -0,0 +1,371 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useAuth } from "@/components/auth/auth-provider";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Download, Loader2, Mic, Play, Trash2, Video, X } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+
+type Contact = {
+  id: string;
+  name: string;
+  avatar_url?: string;
+};
+
+type Recording = {
+  id: string;
+  appointmentId: string;
+  callId: string | null;
+  participantIds: string[];
+  mimeType: string;
+  // Bytes
+  size: number;
+  // Seconds
+  duration: number | null;
+  createdAt: string;
+};
+
+type RecordingsListProps = {
+  // Narrow the list down to one appointment and/or contact
+  appointmentId?: string;
+  contactId?: string;
+};
+
+export default function RecordingsList({
+  appointmentId,
+  contactId,
+}: RecordingsListProps) {
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [contacts, setContacts] = useState<Record<string, Contact>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [playing, setPlaying] = useState<{ id: string; url: string } | null>(
+    null
+  );
+  const [pendingDelete, setPendingDelete] = useState<Recording | null>(null);
+  const { user, token, BASE_URL } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (token) {
+      fetchRecordings();
+      fetchContacts();
+    }
+  }, [token, appointmentId]);
+
+  const fetchRecordings = async () => {
+    try {
+      setIsLoading(true);
+
+      const query = appointmentId
+        ? `?appointmentId=${encodeURIComponent(appointmentId)}`
+        : "";
+      const res = await fetch(`${BASE_URL}/api/recordings${query}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!res.ok) {
+        throw new Error("Failed to fetch recordings");
+      }
+
+      const result = await res.json();
+      setRecordings(result.data);
+    } catch (error) {
+      console.error("Error fetching recordings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load recordings",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchContacts = async () => {
+    try {
+      const res = await fetch(`${BASE_URL}/api/chat/user`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!res.ok) {
+        throw new Error("Failed to fetch users");
+      }
+
+      const data = await res.json();
+      const byId: Record<string, Contact> = {};
+      for (const contact of data.data as Contact[]) {
+        byId[contact.id] = contact;
+      }
+      setContacts(byId);
+    } catch (error) {
+      // Recordings still render with a fallback name
+      console.error("Error fetching users:", error);
+    }
+  };
+
+  // Media elements can't send the auth header, so the server hands out a
+  // short-lived signed URL that supports range requests for streaming
+  const getRecordingUrl = async (recording: Recording, download = false) => {
+    const res = await fetch(
+      `${BASE_URL}/api/recordings/${recording.id}/url${
+        download ? "?download=true" : ""
+      }`,
+      { headers: { Authorization: `Bearer ${token}` } }
+    );
+
+    if (!res.ok) {
+      throw new Error("Failed to get recording URL");
+    }
+
+    const result = await res.json();
+    return (result.data?.url ?? result.url) as string;
+  };
+
+  const playRecording = async (recording: Recording) => {
+    try {
+      setPlaying({ id: recording.id, url: await getRecordingUrl(recording) });
+    } catch (error) {
+      console.error("Error playing recording:", error);
+      toast({
+        title: "Error",
+        description: "Could not play this recording",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const downloadRecording = async (recording: Recording) => {
+    try {
+      window.location.assign(await getRecordingUrl(recording, true));
+    } catch (error) {
+      console.error("Error downloading recording:", error);
+      toast({
+        title: "Error",
+        description: "Could not download this recording",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteRecording = async (recording: Recording) => {
+    try {
+      const res = await fetch(`${BASE_URL}/api/recordings/${recording.id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!res.ok) {
+        throw new Error("Failed to delete recording");
+      }
+
+      setRecordings((prev) => prev.filter((r) => r.id !== recording.id));
+      if (playing?.id === recording.id) setPlaying(null);
+      toast({ title: "Recording deleted" });
+    } catch (error) {
+      console.error("Error deleting recording:", error);
+      toast({
+        title: "Error",
+        description: "Could not delete this recording",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getContactId = (recording: Recording) =>
+    recording.participantIds.find((id) => id !== user?.id);
+
+  const formatDuration = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.round(seconds % 60);
+    return `${mins.toString().padStart(2, "0")}:${secs
+      .toString()
+      .padStart(2, "0")}`;
+  };
+
+  const formatSize = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const getInitials = (name: string) => {
+    return name
+      .split(" ")
+      .map((n) => n[0])
+      .join("")
+      .toUpperCase();
+  };
+
+  const visible = contactId
+    ? recordings.filter((recording) => getContactId(recording) === contactId)
+    : recordings;
+
+  // One section per appointment, newest recordings first
+  const byAppointment = new Map<string, Recording[]>();
+  [...visible]
+    .sort(
+      (a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    )
+    .forEach((recording) => {
+      const group = byAppointment.get(recording.appointmentId) ?? [];
+      group.push(recording);
+      byAppointment.set(recording.appointmentId, group);
+    });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-10">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (visible.length === 0) {
+    return (
+      <div className="text-center py-10">
+        <p className="text-gray-500">No recordings yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {Array.from(byAppointment.entries()).map(([groupId, group]) => {
+        const contact = contacts[getContactId(group[0]) ?? ""];
+        const name = contact?.name || "Unknown contact";
+
+        return (
+          <section key={groupId} className="space-y-3">
+            <div className="flex items-center space-x-3">
+              <Avatar>
+                <AvatarImage
+                  src={contact?.avatar_url || "/placeholder.svg"}
+                  alt={name}
+                />
+                <AvatarFallback>{getInitials(name)}</AvatarFallback>
+              </Avatar>
+              <div>
+                <p className="font-medium">{name}</p>
+                <p className="text-xs text-gray-400">Appointment {groupId}</p>
+              </div>
+            </div>
+
+            {group.map((recording) => {
+              const isVideo = recording.mimeType.startsWith("video/");
+              const isPlaying = playing?.id === recording.id;
+
+              return (
+                <Card key={recording.id} className="overflow-hidden">
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2 text-sm text-gray-500">
+                        {isVideo ? (
+                          <Video className="h-4 w-4" />
+                        ) : (
+                          <Mic className="h-4 w-4" />
+                        )}
+                        <span>
+                          {new Date(recording.createdAt).toLocaleString()}
+                          {recording.duration !== null &&
+                            ` · ${formatDuration(recording.duration)}`}
+                          {` · ${formatSize(recording.size)}`}
+                        </span>
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() =>
+                            isPlaying
+                              ? setPlaying(null)
+                              : playRecording(recording)
+                          }
+                          title={isPlaying ? "Close player" : "Play"}
+                        >
+                          {isPlaying ? (
+                            <X className="h-4 w-4" />
+                          ) : (
+                            <Play className="h-4 w-4" />
+                          )}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => downloadRecording(recording)}
+                          title="Download"
+                        >
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setPendingDelete(recording)}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {isPlaying &&
+                      (isVideo ? (
+                        <video
+                          src={playing.url}
+                          className="w-full rounded-md bg-black"
+                          controls
+                          autoPlay
+                        />
+                      ) : (
+                        <audio
+                          src={playing.url}
+                          className="w-full"
+                          controls
+                          autoPlay
+                        />
+                      ))}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </section>
+        );
+      })}
+
+      <AlertDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+      >
+        <AlertDialogContent className="bg-white">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete recording?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The recording will be removed for both participants. This cannot
+              be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700 text-white"
+              onClick={() => pendingDelete && deleteRecording(pendingDelete)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
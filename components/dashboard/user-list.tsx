@@ -6,7 +6,7 @@ import { useRouter } from "next/navigation";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Phone, Video } from "lucide-react";
+import { Film, Phone, Video } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { SocketService } from "@/service/socket.service";
 
@@ -37,15 +37,12 @@ export default function UserList() {
   useEffect(() => {
     const socketService = SocketService.getInstance();
     // Listen for userStatusChange events
-    socketService.onUserStatusChange((data) => {
+    return socketService.subscribe("userStatusChange", (data) => {
       setOnlineUsers((prev) => ({
         ...prev,
         [data.user_id]: data.status === "online",
       }));
     });
-    return () => {
-      socketService.onUserStatusChange(null);
-    };
   }, []);
 
   const fetchUsers = async () => {
@@ -137,6 +134,12 @@ export default function UserList() {
     );
   };
 
+  const openRecordings = (contact: User) => {
+    router.push(
+      `/dashboard/recordings?contact=${contact.id}&appointment=${contact.appointmentId}`
+    );
+  };
+
   const getInitials = (name: string) => {
     return name
       .split(" ")
@@ -225,6 +228,14 @@ export default function UserList() {
                 >
                   <Video className="h-4 w-4" />
                 </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => openRecordings(contact)}
+                  title="Recordings"
+                >
+                  <Film className="h-4 w-4" />
+                </Button>
               </div>
             </div>
           </CardContent>
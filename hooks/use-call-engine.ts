@@ -0,0 +1,11 @@
+import * as React from "react"
+import { CallEngine, INITIAL_CALL_STATE, type CallState } from "@/service/call.engine"
+
+const getServerSnapshot = (): CallState => INITIAL_CALL_STATE
+
+export function useCallEngine() {
+  const engine = CallEngine.getInstance()
+  const state = React.useSyncExternalStore(engine.subscribe, engine.getState, getServerSnapshot)
+
+  return { state, engine }
+}
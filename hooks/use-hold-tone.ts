@@ -0,0 +1,31 @@
+import * as React from "react"
+
+const TONE_FREQUENCY = 440
+const BEEP_SECONDS = 0.4
+const INTERVAL_MS = 4000
+
+// Plays a short beep every few seconds while `active`, so a held participant
+// knows the call is still up
+export function useHoldTone(active: boolean) {
+  React.useEffect(() => {
+    if (!active) return
+
+    const context = new AudioContext()
+    const beep = () => {
+      const oscillator = context.createOscillator()
+      const gain = context.createGain()
+      oscillator.frequency.value = TONE_FREQUENCY
+      gain.gain.value = 0.1
+      oscillator.connect(gain).connect(context.destination)
+      oscillator.start()
+      oscillator.stop(context.currentTime + BEEP_SECONDS)
+    }
+
+    beep()
+    const interval = setInterval(beep, INTERVAL_MS)
+    return () => {
+      clearInterval(interval)
+      context.close()
+    }
+  }, [active])
+}
@@ -0,0 +1,57 @@
+import * as React from "react"
+
+export interface MediaDeviceLists {
+  cameras: MediaDeviceInfo[]
+  microphones: MediaDeviceInfo[]
+  speakers: MediaDeviceInfo[]
+}
+
+const EMPTY_LISTS: MediaDeviceLists = { cameras: [], microphones: [], speakers: [] }
+
+// Enumerates cameras, microphones and speakers while `enabled`, and keeps the
+// lists current as devices are plugged in or removed. Camera access is only
+// asked for when `withVideo` is set, so audio calls don't prompt for it.
+export function useMediaDevices(enabled = true, withVideo = true) {
+  const [devices, setDevices] = React.useState<MediaDeviceLists>(EMPTY_LISTS)
+  const [isLoaded, setIsLoaded] = React.useState(false)
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    let isCancelled = false
+    const getDevices = async () => {
+      try {
+        // Request permissions first to ensure we get labeled devices
+        await navigator.mediaDevices
+          .getUserMedia({ audio: true, video: withVideo })
+          .then((stream) => stream.getTracks().forEach((track) => track.stop()))
+          .catch((err) => console.warn("Permission request failed, but we'll still try to get devices:", err))
+
+        const all = await navigator.mediaDevices.enumerateDevices()
+        if (isCancelled) return
+
+        setDevices({
+          cameras: all.filter((device) => device.kind === "videoinput"),
+          microphones: all.filter((device) => device.kind === "audioinput"),
+          speakers: all.filter((device) => device.kind === "audiooutput"),
+        })
+        setIsLoaded(true)
+      } catch (error) {
+        console.error("Error getting media devices:", error)
+      }
+    }
+
+    getDevices()
+    navigator.mediaDevices?.addEventListener("devicechange", getDevices)
+    return () => {
+      isCancelled = true
+      navigator.mediaDevices?.removeEventListener("devicechange", getDevices)
+    }
+  }, [enabled, withVideo])
+
+  return { ...devices, isLoaded }
+}
+
+// Keeps the saved device when it's still plugged in, otherwise the first one
+export const pickDevice = (devices: MediaDeviceInfo[], preferredId?: string) =>
+  devices.find((device) => device.deviceId === preferredId)?.deviceId ?? devices[0]?.deviceId ?? ""
@@ -0,0 +1,27 @@
+// Promise wrappers around IndexedDB for the client-side stores that have to
+// survive a reload (recording chunks, the chat outbox)
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+// Resolves to null where IndexedDB isn't available, e.g. some private modes,
+// so callers can fall back to memory
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void,
+): Promise<IDBDatabase | null> =>
+  new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") return resolve(null)
+
+    const request = indexedDB.open(name, version)
+    request.onupgradeneeded = () => upgrade(request.result)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      console.warn(`IndexedDB "${name}" unavailable, using memory:`, request.error)
+      resolve(null)
+    }
+  })
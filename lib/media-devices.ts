@@ -0,0 +1,32 @@
+export interface MediaDevicePreferences {
+  cameraId?: string
+  microphoneId?: string
+  speakerId?: string
+}
+
+const storageKey = (userId: string) => `mediaDevices:${userId}`
+
+export function loadDevicePreferences(userId?: string): MediaDevicePreferences {
+  if (!userId) return {}
+
+  try {
+    const stored = localStorage.getItem(storageKey(userId))
+    return stored ? (JSON.parse(stored) as MediaDevicePreferences) : {}
+  } catch (error) {
+    console.error("Error reading device preferences:", error)
+    return {}
+  }
+}
+
+export function saveDevicePreferences(userId: string, preferences: MediaDevicePreferences) {
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(preferences))
+  } catch (error) {
+    console.error("Error saving device preferences:", error)
+  }
+}
+
+// Prefers the saved device but still opens another one if it's gone
+export function deviceConstraint(deviceId?: string): MediaTrackConstraints | boolean {
+  return deviceId ? { deviceId: { ideal: deviceId } } : true
+}
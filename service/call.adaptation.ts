@@ -0,0 +1,76 @@
+// Steps outgoing video quality down as our uplink degrades and back up once
+// it recovers. Decisions are made from what the peer reports receiving from
+// us, with some hysteresis, so a single bad sample doesn't make the picture
+// flicker.
+
+import { rateUplink, type CallStatsSample } from "./call.stats";
+
+export type VideoQuality = "high" | "medium" | "low" | "audio-only";
+
+export interface VideoEncodingLimits {
+  maxBitrate: number;
+  maxFramerate: number;
+  scaleResolutionDownBy: number;
+}
+
+// Ordered best to worst; "audio-only" stops sending video entirely
+const QUALITY_LADDER: VideoQuality[] = ["high", "medium", "low", "audio-only"];
+
+export const VIDEO_ENCODING_LIMITS: Record<
+  Exclude<VideoQuality, "audio-only">,
+  VideoEncodingLimits
+> = {
+  high: { maxBitrate: 1_500_000, maxFramerate: 30, scaleResolutionDownBy: 1 },
+  medium: { maxBitrate: 600_000, maxFramerate: 24, scaleResolutionDownBy: 2 },
+  low: { maxBitrate: 250_000, maxFramerate: 15, scaleResolutionDownBy: 4 },
+};
+
+// Consecutive poor samples before stepping down (2s apiece)
+const STEP_DOWN_AFTER = 2;
+// Consecutive excellent samples before stepping back up
+const STEP_UP_AFTER = 5;
+// Turning video back on is the most likely step to break things again
+const RESUME_VIDEO_AFTER = 10;
+
+export class VideoQualityAdapter {
+  private level = 0;
+  private poorStreak = 0;
+  private excellentStreak = 0;
+
+  public getQuality(): VideoQuality {
+    return QUALITY_LADDER[this.level];
+  }
+
+  public reset(): void {
+    this.level = 0;
+    this.poorStreak = 0;
+    this.excellentStreak = 0;
+  }
+
+  // Returns the new quality when the sample should change it
+  public update(sample: CallStatsSample): VideoQuality | null {
+    const quality = rateUplink(sample.uplink);
+    this.poorStreak = quality === "poor" ? this.poorStreak + 1 : 0;
+    this.excellentStreak =
+      quality === "excellent" ? this.excellentStreak + 1 : 0;
+
+    const isLowest = this.level === QUALITY_LADDER.length - 1;
+    if (this.poorStreak >= STEP_DOWN_AFTER && !isLowest) {
+      return this.step(1);
+    }
+
+    const upAfter = isLowest ? RESUME_VIDEO_AFTER : STEP_UP_AFTER;
+    if (this.excellentStreak >= upAfter && this.level > 0) {
+      return this.step(-1);
+    }
+
+    return null;
+  }
+
+  private step(direction: 1 | -1): VideoQuality {
+    this.level += direction;
+    this.poorStreak = 0;
+    this.excellentStreak = 0;
+    return this.getQuality();
+  }
+}
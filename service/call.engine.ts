@@ -0,0 +1,698 @@
+import {
+  initialCallMachineState,
+  isActiveStatus,
+  transition,
+  type CallDirection,
+  type CallEvent,
+  type CallMachineState,
+} from "./call.machine";
+import { SocketService } from "./socket.service";
+import {
+  buildQualityReport,
+  CallStatsCollector,
+  type CallQualityReport,
+  type CallStatsSample,
+} from "./call.stats";
+import {
+  VIDEO_ENCODING_LIMITS,
+  VideoQualityAdapter,
+  type VideoQuality,
+} from "./call.adaptation";
+import type { CallAppointment } from "./socket.protocol";
+import type { MediaDevicePreferences } from "@/lib/media-devices";
+
+export type {
+  CallDirection,
+  CallEndReason,
+  CallStatus,
+} from "./call.machine";
+export type { VideoQuality } from "./call.adaptation";
+
+// Recording needs both participants' consent. "requesting" waits for the
+// peer to answer our request; "consent-requested" waits for us to answer
+// theirs; "peer-recording" means the peer records with our consent.
+export type RecordingStatus =
+  | "idle"
+  | "requesting"
+  | "consent-requested"
+  | "recording"
+  | "peer-recording";
+
+// Give up on a call whose media never connects after being accepted
+const CONNECT_TIMEOUT_MS = 30000;
+// Give up waiting for the gateway to answer a join
+const JOIN_TIMEOUT_MS = 10000;
+
+export interface CallState extends CallMachineState {
+  callId: string | null;
+  appointmentId: string | null;
+  peerId: string | null;
+  isVideoCall: boolean;
+  // Whether the coach placed an incoming call (from the gateway)
+  isDoctorCall: boolean;
+  // Offer of a ringing incoming call, needed to answer it
+  offer: RTCSessionDescriptionInit | null;
+  localStream: MediaStream | null;
+  remoteStream: MediaStream | null;
+  isMuted: boolean;
+  isVideoOff: boolean;
+  // Local capture being shared in place of the camera
+  screenStream: MediaStream | null;
+  isRemoteScreenSharing: boolean;
+  // Latest quality sample while connected
+  stats: CallStatsSample | null;
+  // What the connection currently lets us send; "audio-only" pauses video
+  videoQuality: VideoQuality;
+  isRemoteVideoSuspended: boolean;
+  recordingStatus: RecordingStatus;
+  connectedAt: number | null;
+}
+
+export interface StartCallOptions {
+  appointmentId: string;
+  receiverId: string;
+  isVideoCall: boolean;
+  devices?: MediaDevicePreferences;
+}
+
+export interface AcceptCallOptions {
+  callId: string;
+  callerId: string;
+  appointmentId: string;
+  offer: RTCSessionDescriptionInit;
+  isVideoCall: boolean;
+  devices?: MediaDevicePreferences;
+}
+
+export const INITIAL_CALL_STATE: CallState = {
+  ...initialCallMachineState,
+  callId: null,
+  appointmentId: null,
+  peerId: null,
+  isVideoCall: false,
+  isDoctorCall: false,
+  offer: null,
+  localStream: null,
+  remoteStream: null,
+  isMuted: false,
+  isVideoOff: false,
+  screenStream: null,
+  isRemoteScreenSharing: false,
+  stats: null,
+  videoQuality: "high",
+  isRemoteVideoSuspended: false,
+  recordingStatus: "idle",
+  connectedAt: null,
+};
+
+// Thrown when the gateway refuses to join an appointment's call. Carries the
+// appointment start time when the refusal is only because it's too early.
+export class CallAccessError extends Error {
+  constructor(message: string, public readonly startTime?: string) {
+    super(message);
+    this.name = "CallAccessError";
+  }
+}
+
+export const isVideoOffer = (offer: RTCSessionDescriptionInit): boolean =>
+  offer.sdp?.includes("m=video") || false;
+
+/**
+ * Headless call engine shared by every call UI. Signalling and the peer
+ * connection live in SocketService; the engine drives them and feeds every
+ * status change through the call state machine, so out-of-order events
+ * (e.g. callAccepted after callEnded) are dropped instead of applied.
+ */
+export class CallEngine {
+  private static instance: CallEngine;
+  private socketService = SocketService.getInstance();
+  private state: CallState = INITIAL_CALL_STATE;
+  // Bumped for every new call so async steps can detect they went stale
+  private callSequence = 0;
+  private listeners = new Set<(state: CallState) => void>();
+  private connectTimeout: NodeJS.Timeout | null = null;
+  private statsCollector = new CallStatsCollector(() =>
+    this.socketService.getStats()
+  );
+  private qualityAdapter = new VideoQualityAdapter();
+
+  private constructor() {
+    this.setupSocketListeners();
+  }
+
+  public static getInstance(): CallEngine {
+    if (!CallEngine.instance) {
+      CallEngine.instance = new CallEngine();
+    }
+    return CallEngine.instance;
+  }
+
+  // State access, shaped for useSyncExternalStore
+  public getState = (): CallState => this.state;
+
+  public subscribe = (listener: (state: CallState) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  public isActive(): boolean {
+    return isActiveStatus(this.state.status);
+  }
+
+  // Quality time series of the current (or just ended) call
+  public getStatsHistory(): CallStatsSample[] {
+    return this.statsCollector.getSamples();
+  }
+
+  public getQualityReport(): CallQualityReport {
+    return buildQualityReport(this.statsCollector.getSamples());
+  }
+
+  // Call actions
+  public async startCall({
+    appointmentId,
+    receiverId,
+    isVideoCall,
+    devices,
+  }: StartCallOptions): Promise<void> {
+    if (this.isActive()) {
+      throw new Error("Another call is already in progress");
+    }
+
+    const sequence = ++this.callSequence;
+    this.statsCollector.reset();
+    this.qualityAdapter.reset();
+    this.send(
+      { type: "DIAL" },
+      { ...INITIAL_CALL_STATE, appointmentId, peerId: receiverId, isVideoCall }
+    );
+
+    try {
+      const localStream =
+        await this.socketService.setupLocalMedia(isVideoCall, devices);
+      if (!this.isCurrentCall(sequence)) {
+        // Superseded while waiting for the devices; release them again
+        localStream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      this.setState({ localStream });
+
+      await this.joinAppointment(appointmentId);
+      if (!this.isCurrentCall(sequence)) return;
+
+      await this.socketService.initiateCall(
+        appointmentId,
+        receiverId,
+        isVideoCall
+      );
+    } catch (error) {
+      console.error("Error starting call:", error);
+      this.end({ type: "FAILED", error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  public async acceptCall({
+    callId,
+    callerId,
+    appointmentId,
+    offer,
+    isVideoCall,
+    devices,
+  }: AcceptCallOptions): Promise<void> {
+    const isAnswering =
+      this.isRinging("incoming") && this.state.callId === callId;
+    if (this.isActive() && !isAnswering) {
+      throw new Error("Another call is already in progress");
+    }
+
+    const sequence = ++this.callSequence;
+    this.statsCollector.reset();
+    this.qualityAdapter.reset();
+    this.send(
+      { type: "ANSWER" },
+      {
+        ...INITIAL_CALL_STATE,
+        callId,
+        appointmentId,
+        peerId: callerId,
+        isVideoCall,
+      }
+    );
+    this.startConnectTimeout(sequence);
+
+    try {
+      const localStream =
+        await this.socketService.setupLocalMedia(isVideoCall, devices);
+      if (!this.isCurrentCall(sequence)) {
+        // Superseded while waiting for the devices; release them again
+        localStream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      this.setState({ localStream });
+
+      // The callee needs the appointment room too, for in-call chat
+      await this.joinAppointment(appointmentId);
+      if (!this.isCurrentCall(sequence)) return;
+
+      await this.socketService.answerCall(
+        callId,
+        callerId,
+        appointmentId,
+        offer
+      );
+    } catch (error) {
+      console.error("Error accepting call:", error);
+      this.end({ type: "FAILED", error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  // Checks call access for an appointment and joins its call room
+  public joinAppointment(
+    appointmentId: string
+  ): Promise<CallAppointment | undefined> {
+    return new Promise((resolve, reject) => {
+      // joinCall can't emit without a socket, so nothing would ever answer
+      if (!this.socketService.isConnected()) {
+        reject(new Error("Not connected to the call server"));
+        return;
+      }
+
+      const unsubscribeJoined = this.socketService.subscribe(
+        "joinedCall",
+        (data) => {
+          // A rejoin after a reconnect may answer for another appointment
+          if (data.appointment?.id !== appointmentId) return;
+          unsubscribe();
+          resolve(data.appointment);
+        }
+      );
+      const unsubscribeError = this.socketService.subscribe(
+        "joinError",
+        (data) => {
+          unsubscribe();
+          reject(
+            new CallAccessError(
+              data.message || "Failed to join call",
+              data.startTime
+            )
+          );
+        }
+      );
+      const timeout = setTimeout(() => {
+        unsubscribe();
+        reject(new Error("Timed out joining the call"));
+      }, JOIN_TIMEOUT_MS);
+      const unsubscribe = () => {
+        clearTimeout(timeout);
+        unsubscribeJoined();
+        unsubscribeError();
+      };
+
+      this.socketService.joinCall(appointmentId);
+    });
+  }
+
+  public declineCall(): void {
+    if (!this.isRinging("incoming") || !this.state.callId) return;
+
+    this.socketService.rejectCall(this.state.callId);
+    this.end({ type: "DECLINE" });
+  }
+
+  public hangUp(): void {
+    if (!this.isActive()) return;
+
+    if (this.isRinging("incoming")) {
+      this.declineCall();
+      return;
+    }
+
+    if (this.state.appointmentId) {
+      this.socketService.endCall(this.state.appointmentId);
+    }
+    this.end({ type: "HANG_UP" });
+  }
+
+  // Returns the engine to idle once a UI has finished with an ended call
+  public reset(): void {
+    this.send({ type: "RESET" }, INITIAL_CALL_STATE);
+  }
+
+  // Media controls
+  public toggleMute(): void {
+    this.socketService.toggleAudio();
+    this.setState({ isMuted: !this.state.isMuted });
+  }
+
+  public toggleVideo(): void {
+    this.socketService.toggleVideo();
+    this.setState({ isVideoOff: !this.state.isVideoOff });
+  }
+
+  public async toggleHold(): Promise<void> {
+    const onHold = !this.state.isOnHold;
+    if (!this.send({ type: onHold ? "HOLD" : "RESUME" })) return;
+
+    try {
+      await this.socketService.setHold(onHold);
+    } catch (error) {
+      console.error("Error changing hold state:", error);
+    }
+  }
+
+  public async toggleScreenShare(): Promise<void> {
+    if (this.state.screenStream) {
+      this.setState({ screenStream: null });
+      await this.socketService.stopScreenShare();
+      return;
+    }
+
+    if (this.state.status !== "connected") return;
+    const screenStream = await this.socketService.startScreenShare();
+    this.setState({ screenStream });
+  }
+
+  // Recording
+  public requestRecording(): void {
+    if (this.state.status !== "connected") return;
+    if (this.state.recordingStatus !== "idle") return;
+
+    this.socketService.sendRecordingConsent("request");
+    this.setState({ recordingStatus: "requesting" });
+  }
+
+  public respondToRecordingRequest(granted: boolean): void {
+    if (this.state.recordingStatus !== "consent-requested") return;
+
+    this.socketService.sendRecordingConsent(granted ? "grant" : "decline");
+    this.setState({ recordingStatus: granted ? "peer-recording" : "idle" });
+  }
+
+  // Stops our own recording (or cancels the request), or withdraws consent
+  // from the peer's recording, which stops it on their side
+  public stopRecording(): void {
+    const { recordingStatus, appointmentId } = this.state;
+
+    if (recordingStatus === "recording" && appointmentId) {
+      this.socketService.stopRecording(appointmentId);
+    }
+    if (recordingStatus === "recording" || recordingStatus === "requesting") {
+      this.socketService.sendRecordingConsent("stop");
+    } else if (recordingStatus === "peer-recording") {
+      this.socketService.sendRecordingConsent("revoke");
+    } else {
+      return;
+    }
+
+    this.setState({ recordingStatus: "idle" });
+  }
+
+  // Moves the live call to another microphone or camera. Without a deviceId
+  // the system default is used, e.g. after the selected device was unplugged.
+  public async switchDevice(
+    kind: "audio" | "video",
+    deviceId?: string
+  ): Promise<void> {
+    if (!this.isActive() || !this.state.localStream) return;
+    await this.socketService.replaceLocalTrack(kind, deviceId);
+  }
+
+  // Internal helpers
+  private handleStats(stats: CallStatsSample): void {
+    this.setState({ stats });
+
+    // Held calls send nothing, so their samples say little about the link
+    const canAdapt =
+      this.state.isVideoCall &&
+      this.state.status === "connected" &&
+      !this.state.isOnHold;
+    if (!canAdapt) return;
+
+    const videoQuality = this.qualityAdapter.update(stats);
+    if (videoQuality) this.applyVideoQuality(videoQuality);
+  }
+
+  private async applyVideoQuality(videoQuality: VideoQuality): Promise<void> {
+    const sequence = this.callSequence;
+    this.setState({ videoQuality });
+
+    try {
+      if (videoQuality === "audio-only") {
+        await this.socketService.setVideoSuspended(true);
+        return;
+      }
+
+      await this.socketService.setVideoEncoding(
+        VIDEO_ENCODING_LIMITS[videoQuality]
+      );
+      if (this.isCurrentCall(sequence)) {
+        await this.socketService.setVideoSuspended(false);
+      }
+    } catch (error) {
+      console.error("Error adapting video quality:", error);
+    }
+  }
+
+  private setState(patch: Partial<CallState>): void {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+
+  // Applies a machine event, together with any call data that comes with it.
+  // Returns false (and changes nothing) when the transition isn't allowed.
+  private send(event: CallEvent, patch: Partial<CallState> = {}): boolean {
+    const next = transition(this.state, event);
+    if (!next) {
+      console.warn(`Ignoring ${event.type} while call is ${this.state.status}`);
+      return false;
+    }
+
+    this.setState({ ...patch, ...next });
+    return true;
+  }
+
+  private isRinging(direction: CallDirection): boolean {
+    const { status } = this.state;
+    return status === "ringing" && this.state.direction === direction;
+  }
+
+  // Guards async steps against the call having ended or been replaced
+  private isCurrentCall(sequence: number): boolean {
+    return this.isActive() && this.callSequence === sequence;
+  }
+
+  private startConnectTimeout(sequence: number): void {
+    this.clearConnectTimeout();
+    this.connectTimeout = setTimeout(() => {
+      if (this.isCurrentCall(sequence)) {
+        this.end({ type: "TIMED_OUT" });
+      }
+    }, CONNECT_TIMEOUT_MS);
+  }
+
+  private clearConnectTimeout(): void {
+    if (this.connectTimeout) {
+      clearTimeout(this.connectTimeout);
+      this.connectTimeout = null;
+    }
+  }
+
+  private end(event: CallEvent): void {
+    // Ringing incoming calls have no local media or peer connection yet
+    const hasMedia = !this.isRinging("incoming");
+    const ended = this.send(event, {
+      offer: null,
+      localStream: null,
+      remoteStream: null,
+      screenStream: null,
+      isRemoteScreenSharing: false,
+      stats: null,
+      isRemoteVideoSuspended: false,
+      recordingStatus: "idle",
+    });
+    if (!ended) return;
+
+    this.clearConnectTimeout();
+    this.statsCollector.stop();
+    if (hasMedia) {
+      this.socketService.cleanup();
+    }
+  }
+
+  private setupSocketListeners(): void {
+    const socketService = this.socketService;
+
+    socketService.subscribe("incomingCall", (data) => {
+      if (this.isActive()) {
+        // Busy: we only ever handle one call at a time
+        socketService.rejectCall(data.callId);
+        return;
+      }
+
+      this.callSequence++;
+      this.send(
+        { type: "INCOMING" },
+        {
+          ...INITIAL_CALL_STATE,
+          callId: data.callId,
+          appointmentId: data.appointmentId,
+          peerId: data.caller,
+          isVideoCall: isVideoOffer(data.offer),
+          isDoctorCall: data.isDoctorCall,
+          offer: data.offer,
+        }
+      );
+    });
+
+    socketService.subscribe("callRinging", (data) => {
+      if (this.isRinging("outgoing")) {
+        this.setState({ callId: data.callId });
+      }
+    });
+
+    socketService.subscribe("callAccepted", () => {
+      if (this.send({ type: "ACCEPTED" })) {
+        this.startConnectTimeout(this.callSequence);
+      }
+    });
+
+    socketService.subscribe("iceConnectionStateChange", (iceState) => {
+      const isIceConnected =
+        iceState === "connected" || iceState === "completed";
+      if (isIceConnected && this.state.status === "connecting") {
+        this.send({ type: "MEDIA_CONNECTED" }, { connectedAt: Date.now() });
+        this.clearConnectTimeout();
+        this.statsCollector.start((stats) => this.handleStats(stats));
+      }
+    });
+
+    socketService.subscribe("remoteStream", (remoteStream) => {
+      if (this.isActive()) this.setState({ remoteStream });
+    });
+
+    socketService.subscribe("callRejected", () => {
+      this.end({ type: "REJECTED" });
+    });
+
+    socketService.subscribe("callNotAnswered", () => {
+      this.end({ type: "NOT_ANSWERED" });
+    });
+
+    socketService.subscribe("callCancelled", (data) => {
+      if (this.state.callId === data.callId) {
+        this.end({ type: "CANCELLED" });
+      }
+    });
+
+    socketService.subscribe("missedCall", (data) => {
+      if (this.state.peerId === data.caller) {
+        this.end({ type: "MISSED" });
+      }
+    });
+
+    // A late callEnded from a previous call must not end this one
+    socketService.subscribe("callEnded", (data) => {
+      if (this.isActive() && this.state.callId === data.callId) {
+        this.end({ type: "REMOTE_HANG_UP" });
+      }
+    });
+
+    socketService.subscribe("remoteHold", () => {
+      this.send({ type: "REMOTE_HOLD" });
+    });
+
+    socketService.subscribe("remoteResume", () => {
+      this.send({ type: "REMOTE_RESUME" });
+    });
+
+    socketService.subscribe("remoteScreenShare", (data) => {
+      if (this.isActive()) {
+        this.setState({ isRemoteScreenSharing: data.active });
+      }
+    });
+
+    socketService.subscribe("remoteVideoFallback", (data) => {
+      if (this.isActive()) {
+        this.setState({ isRemoteVideoSuspended: data.suspended });
+      }
+    });
+
+    socketService.subscribe("remoteRecordingConsent", ({ action }) => {
+      const { recordingStatus, appointmentId } = this.state;
+
+      switch (action) {
+        case "request":
+          if (recordingStatus === "idle") {
+            this.setState({ recordingStatus: "consent-requested" });
+          } else if (recordingStatus === "requesting" && appointmentId) {
+            // Both asked at once, so each has agreed to the other's request.
+            // Only one side records: the caller.
+            if (this.state.direction === "outgoing") {
+              socketService.startRecording(appointmentId);
+              this.setState({ recordingStatus: "recording" });
+            } else {
+              this.setState({ recordingStatus: "peer-recording" });
+            }
+          }
+          break;
+
+        case "grant":
+          if (recordingStatus === "requesting" && appointmentId) {
+            socketService.startRecording(appointmentId);
+            this.setState({ recordingStatus: "recording" });
+          }
+          break;
+
+        case "decline":
+          if (recordingStatus === "requesting") {
+            this.setState({ recordingStatus: "idle" });
+          }
+          break;
+
+        case "revoke":
+          if (recordingStatus === "recording" && appointmentId) {
+            socketService.stopRecording(appointmentId);
+            this.setState({ recordingStatus: "idle" });
+          }
+          break;
+
+        case "stop":
+          if (
+            recordingStatus === "peer-recording" ||
+            recordingStatus === "consent-requested"
+          ) {
+            this.setState({ recordingStatus: "idle" });
+          }
+          break;
+      }
+    });
+
+    socketService.subscribe("screenShareEnded", () => {
+      this.setState({ screenStream: null });
+    });
+
+    socketService.subscribe("reconnecting", () => {
+      if (this.isActive()) this.send({ type: "CONNECTION_LOST" });
+    });
+
+    socketService.subscribe("reconnected", () => {
+      if (this.state.status !== "reconnecting") return;
+      this.send(
+        { type: "RECONNECTED" },
+        { connectedAt: this.state.connectedAt ?? Date.now() }
+      );
+    });
+
+    socketService.subscribe("reconnectFailed", (data) => {
+      if (!this.isActive()) return;
+      this.end({
+        type: "FAILED",
+        error: data.message || "Unable to reconnect the call",
+      });
+    });
+  }
+}
@@ -0,0 +1,236 @@
+import { describe, expect, it } from "vitest";
+import {
+  initialCallMachineState,
+  isActiveStatus,
+  transition,
+  type CallEvent,
+  type CallMachineState,
+} from "./call.machine";
+
+const EVENTS: CallEvent[] = [
+  { type: "DIAL" },
+  { type: "ANSWER" },
+  { type: "DECLINE" },
+  { type: "HANG_UP" },
+  { type: "HOLD" },
+  { type: "RESUME" },
+  { type: "RESET" },
+  { type: "INCOMING" },
+  { type: "ACCEPTED" },
+  { type: "REJECTED" },
+  { type: "NOT_ANSWERED" },
+  { type: "CANCELLED" },
+  { type: "MISSED" },
+  { type: "REMOTE_HANG_UP" },
+  { type: "REMOTE_HOLD" },
+  { type: "REMOTE_RESUME" },
+  { type: "MEDIA_CONNECTED" },
+  { type: "CONNECTION_LOST" },
+  { type: "RECONNECTED" },
+  { type: "TIMED_OUT" },
+  { type: "FAILED", error: "boom" },
+];
+
+const event = (type: CallEvent["type"]): CallEvent =>
+  EVENTS.find((e) => e.type === type)!;
+
+const at = (overrides: Partial<CallMachineState>): CallMachineState => ({
+  ...initialCallMachineState,
+  ...overrides,
+});
+
+const STATES = {
+  idle: initialCallMachineState,
+  ended: at({ status: "ended", direction: "outgoing", endReason: "hangup" }),
+  ringingOutgoing: at({ status: "ringing", direction: "outgoing" }),
+  ringingIncoming: at({ status: "ringing", direction: "incoming" }),
+  connecting: at({ status: "connecting", direction: "outgoing" }),
+  connected: at({ status: "connected", direction: "outgoing" }),
+  onHold: at({ status: "connected", direction: "outgoing", isOnHold: true }),
+  remoteOnHold: at({
+    status: "connected",
+    direction: "outgoing",
+    isRemoteOnHold: true,
+  }),
+  reconnecting: at({ status: "reconnecting", direction: "outgoing" }),
+};
+
+type StateName = keyof typeof STATES;
+
+const ended = (
+  endReason: CallMachineState["endReason"],
+  error: string | null = null
+): Partial<CallMachineState> => ({
+  status: "ended",
+  isOnHold: false,
+  isRemoteOnHold: false,
+  endReason,
+  error,
+});
+
+// Every legal edge, with the fields the next state must have
+const LEGAL: Record<
+  StateName,
+  Partial<Record<CallEvent["type"], Partial<CallMachineState>>>
+> = {
+  idle: {
+    DIAL: { status: "ringing", direction: "outgoing" },
+    INCOMING: { status: "ringing", direction: "incoming" },
+    ANSWER: { status: "connecting", direction: "incoming" },
+  },
+  ended: {
+    DIAL: { status: "ringing", direction: "outgoing", endReason: null },
+    INCOMING: { status: "ringing", direction: "incoming", endReason: null },
+    ANSWER: { status: "connecting", direction: "incoming", endReason: null },
+    RESET: initialCallMachineState,
+  },
+  ringingOutgoing: {
+    ACCEPTED: { status: "connecting", direction: "outgoing" },
+    REJECTED: ended("rejected"),
+    NOT_ANSWERED: ended("not-answered"),
+    TIMED_OUT: ended("timed-out"),
+    HANG_UP: ended("hangup"),
+    REMOTE_HANG_UP: ended("remote-hangup"),
+    FAILED: ended("failed", "boom"),
+  },
+  ringingIncoming: {
+    ANSWER: { status: "connecting", direction: "incoming" },
+    DECLINE: ended("declined"),
+    CANCELLED: ended("cancelled"),
+    MISSED: ended("missed"),
+    HANG_UP: ended("declined"),
+    REMOTE_HANG_UP: ended("remote-hangup"),
+    FAILED: ended("failed", "boom"),
+  },
+  connecting: {
+    MEDIA_CONNECTED: { status: "connected" },
+    TIMED_OUT: ended("timed-out"),
+    CONNECTION_LOST: { status: "reconnecting" },
+    HANG_UP: ended("hangup"),
+    REMOTE_HANG_UP: ended("remote-hangup"),
+    FAILED: ended("failed", "boom"),
+  },
+  connected: {
+    HOLD: { status: "connected", isOnHold: true },
+    REMOTE_HOLD: { status: "connected", isRemoteOnHold: true },
+    CONNECTION_LOST: { status: "reconnecting" },
+    HANG_UP: ended("hangup"),
+    REMOTE_HANG_UP: ended("remote-hangup"),
+    FAILED: ended("failed", "boom"),
+  },
+  onHold: {
+    RESUME: { status: "connected", isOnHold: false },
+    REMOTE_HOLD: { isOnHold: true, isRemoteOnHold: true },
+    CONNECTION_LOST: { status: "reconnecting", isOnHold: true },
+    HANG_UP: ended("hangup"),
+    REMOTE_HANG_UP: ended("remote-hangup"),
+    FAILED: ended("failed", "boom"),
+  },
+  remoteOnHold: {
+    REMOTE_RESUME: { status: "connected", isRemoteOnHold: false },
+    HOLD: { isOnHold: true, isRemoteOnHold: true },
+    CONNECTION_LOST: { status: "reconnecting", isRemoteOnHold: true },
+    HANG_UP: ended("hangup"),
+    REMOTE_HANG_UP: ended("remote-hangup"),
+    FAILED: ended("failed", "boom"),
+  },
+  reconnecting: {
+    RECONNECTED: { status: "connected" },
+    HANG_UP: ended("hangup"),
+    REMOTE_HANG_UP: ended("remote-hangup"),
+    FAILED: ended("failed", "boom"),
+  },
+};
+
+describe("transition", () => {
+  for (const [name, state] of Object.entries(STATES)) {
+    describe(`from ${name}`, () => {
+      const legal = LEGAL[name as StateName];
+
+      for (const e of EVENTS) {
+        const expected = legal[e.type];
+
+        if (expected) {
+          it(`${e.type} is accepted`, () => {
+            const next = transition(state, e);
+            expect(next).not.toBeNull();
+            expect(next).toMatchObject(expected);
+          });
+        } else {
+          it(`${e.type} is ignored`, () => {
+            expect(transition(state, e)).toBeNull();
+          });
+        }
+      }
+    });
+  }
+
+  it("does not mutate the previous state", () => {
+    const state = at({ status: "connected", direction: "outgoing" });
+    const snapshot = { ...state };
+    transition(state, event("HOLD"));
+    expect(state).toEqual(snapshot);
+  });
+
+  it("resets to the initial state", () => {
+    expect(transition(STATES.ended, event("RESET"))).toBe(
+      initialCallMachineState
+    );
+  });
+});
+
+// Replays what the gateway and the peer connection report over a call, the
+// way the call engine feeds them in
+const play = (events: CallEvent["type"][], from = initialCallMachineState) =>
+  events.reduce<CallMachineState | null>(
+    (state, type) => (state ? transition(state, event(type)) : null),
+    from
+  );
+
+describe("call flows", () => {
+  it("places, holds, recovers and hangs up an outgoing call", () => {
+    expect(
+      play([
+        "DIAL", // callRinging
+        "ACCEPTED", // callAccepted
+        "MEDIA_CONNECTED", // peer connection "connected"
+        "HOLD",
+        "REMOTE_HOLD", // hold
+        "CONNECTION_LOST", // socket disconnect
+        "RECONNECTED", // reconnectSuccess
+        "RESUME",
+        "REMOTE_RESUME", // resume
+        "REMOTE_HANG_UP", // callEnded
+      ])
+    ).toMatchObject(ended("remote-hangup"));
+  });
+
+  it("answers an incoming call", () => {
+    expect(play(["INCOMING", "ANSWER", "MEDIA_CONNECTED"])).toMatchObject({
+      status: "connected",
+      direction: "incoming",
+    });
+  });
+
+  it("drops a late ACCEPTED once the caller gave up", () => {
+    const state = play(["DIAL", "HANG_UP"])!;
+    expect(state.status).toBe("ended");
+    expect(transition(state, event("ACCEPTED"))).toBeNull();
+  });
+
+  it("drops a late callEnded after the call was reset", () => {
+    const state = play(["DIAL", "REJECTED", "RESET"])!;
+    expect(transition(state, event("REMOTE_HANG_UP"))).toBeNull();
+  });
+});
+
+describe("isActiveStatus", () => {
+  it("treats ringing through reconnecting as active", () => {
+    expect(isActiveStatus("idle")).toBe(false);
+    expect(isActiveStatus("ringing")).toBe(true);
+    expect(isActiveStatus("connecting")).toBe(true);
+    expect(isActiveStatus("connected")).toBe(true);
+    expect(isActiveStatus("reconnecting")).toBe(true);
+    expect(isActiveStatus("ended")).toBe(false);
+  });
+});
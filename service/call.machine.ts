@@ -0,0 +1,197 @@
+// Pure call state machine. No React, sockets or WebRTC in here: the call
+// engine translates socket/media events into CallEvents and applies them.
+
+export type CallStatus =
+  | "idle"
+  | "ringing"
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "ended";
+
+export type CallDirection = "incoming" | "outgoing";
+
+export type CallEndReason =
+  | "hangup"
+  | "remote-hangup"
+  | "declined"
+  | "rejected"
+  | "not-answered"
+  | "cancelled"
+  | "missed"
+  | "timed-out"
+  | "failed";
+
+export interface CallMachineState {
+  status: CallStatus;
+  direction: CallDirection | null;
+  // Local and remote hold are independent; both can be active at once
+  isOnHold: boolean;
+  isRemoteOnHold: boolean;
+  endReason: CallEndReason | null;
+  error: string | null;
+}
+
+export type CallEvent =
+  // Local user actions
+  | { type: "DIAL" }
+  | { type: "ANSWER" }
+  | { type: "DECLINE" }
+  | { type: "HANG_UP" }
+  | { type: "HOLD" }
+  | { type: "RESUME" }
+  | { type: "RESET" }
+  // Signalling from the peer / gateway
+  | { type: "INCOMING" }
+  | { type: "ACCEPTED" }
+  | { type: "REJECTED" }
+  | { type: "NOT_ANSWERED" }
+  | { type: "CANCELLED" }
+  | { type: "MISSED" }
+  | { type: "REMOTE_HANG_UP" }
+  | { type: "REMOTE_HOLD" }
+  | { type: "REMOTE_RESUME" }
+  // Media / connection
+  | { type: "MEDIA_CONNECTED" }
+  | { type: "CONNECTION_LOST" }
+  | { type: "RECONNECTED" }
+  | { type: "TIMED_OUT" }
+  | { type: "FAILED"; error: string };
+
+export const initialCallMachineState: CallMachineState = {
+  status: "idle",
+  direction: null,
+  isOnHold: false,
+  isRemoteOnHold: false,
+  endReason: null,
+  error: null,
+};
+
+const ACTIVE_STATUSES: CallStatus[] = [
+  "ringing",
+  "connecting",
+  "connected",
+  "reconnecting",
+];
+
+export const isActiveStatus = (status: CallStatus): boolean =>
+  ACTIVE_STATUSES.includes(status);
+
+const isRinging = (state: CallMachineState, direction: CallDirection) =>
+  state.status === "ringing" && state.direction === direction;
+
+const start = (
+  status: CallStatus,
+  direction: CallDirection
+): CallMachineState => ({ ...initialCallMachineState, status, direction });
+
+const end = (
+  state: CallMachineState,
+  endReason: CallEndReason,
+  error: string | null = null
+): CallMachineState => ({
+  ...state,
+  status: "ended",
+  isOnHold: false,
+  isRemoteOnHold: false,
+  endReason,
+  error,
+});
+
+/**
+ * Applies an event to the call state. Returns the next state, or null when
+ * the event isn't valid in the current state (e.g. `ACCEPTED` after the call
+ * already ended) so callers can drop stale or out-of-order events.
+ */
+export function transition(
+  state: CallMachineState,
+  event: CallEvent
+): CallMachineState | null {
+  const { status } = state;
+  const canStart = status === "idle" || status === "ended";
+
+  switch (event.type) {
+    case "DIAL":
+      return canStart ? start("ringing", "outgoing") : null;
+
+    case "INCOMING":
+      return canStart ? start("ringing", "incoming") : null;
+
+    case "ANSWER":
+      // Answering without a ringing state happens when the call page is
+      // opened directly (e.g. after a reload) with the offer in the URL
+      if (isRinging(state, "incoming") || canStart) {
+        return start("connecting", "incoming");
+      }
+      return null;
+
+    case "ACCEPTED":
+      return isRinging(state, "outgoing")
+        ? { ...state, status: "connecting" }
+        : null;
+
+    case "MEDIA_CONNECTED":
+      return status === "connecting" ? { ...state, status: "connected" } : null;
+
+    case "DECLINE":
+      return isRinging(state, "incoming") ? end(state, "declined") : null;
+
+    case "REJECTED":
+      return isRinging(state, "outgoing") ? end(state, "rejected") : null;
+
+    case "NOT_ANSWERED":
+      return isRinging(state, "outgoing") ? end(state, "not-answered") : null;
+
+    case "CANCELLED":
+      return isRinging(state, "incoming") ? end(state, "cancelled") : null;
+
+    case "MISSED":
+      return isRinging(state, "incoming") ? end(state, "missed") : null;
+
+    case "TIMED_OUT":
+      return isRinging(state, "outgoing") || status === "connecting"
+        ? end(state, "timed-out")
+        : null;
+
+    case "HOLD":
+      return status === "connected" && !state.isOnHold
+        ? { ...state, isOnHold: true }
+        : null;
+
+    case "RESUME":
+      return status === "connected" && state.isOnHold
+        ? { ...state, isOnHold: false }
+        : null;
+
+    case "REMOTE_HOLD":
+      return status === "connected" && !state.isRemoteOnHold
+        ? { ...state, isRemoteOnHold: true }
+        : null;
+
+    case "REMOTE_RESUME":
+      return status === "connected" && state.isRemoteOnHold
+        ? { ...state, isRemoteOnHold: false }
+        : null;
+
+    case "CONNECTION_LOST":
+      return status === "connecting" || status === "connected"
+        ? { ...state, status: "reconnecting" }
+        : null;
+
+    case "RECONNECTED":
+      return status === "reconnecting" ? { ...state, status: "connected" } : null;
+
+    case "HANG_UP":
+      if (isRinging(state, "incoming")) return end(state, "declined");
+      return isActiveStatus(status) ? end(state, "hangup") : null;
+
+    case "REMOTE_HANG_UP":
+      return isActiveStatus(status) ? end(state, "remote-hangup") : null;
+
+    case "FAILED":
+      return isActiveStatus(status) ? end(state, "failed", event.error) : null;
+
+    case "RESET":
+      return status === "ended" ? initialCallMachineState : null;
+  }
+}
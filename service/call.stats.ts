@@ -0,0 +1,262 @@
+// Turns periodic RTCPeerConnection.getStats() reports into call quality
+// samples. Most counters in the reports are cumulative, so rates are derived
+// from the difference between two consecutive reports.
+
+export type CallQuality = "excellent" | "good" | "poor" | "unknown";
+
+// How our outgoing video is doing, as the other side's receiver reports it
+// back over RTCP (remote-inbound-rtp) plus what limits our own encoder
+// (outbound-rtp)
+export interface UplinkStats {
+  // Percent of our packets lost in the last receiver report
+  packetLoss: number;
+  // Milliseconds
+  jitter: number | null;
+  roundTripTime: number | null;
+  qualityLimitationReason: "none" | "cpu" | "bandwidth" | "other" | null;
+}
+
+export interface CallStatsSample {
+  timestamp: number;
+  // Kilobits per second, all audio and video streams combined
+  outboundBitrate: number;
+  inboundBitrate: number;
+  // Share of inbound packets lost since the previous sample, in percent
+  packetLoss: number;
+  // Milliseconds
+  jitter: number | null;
+  roundTripTime: number | null;
+  // Incoming video, when there is any
+  resolution: { width: number; height: number } | null;
+  frameRate: number | null;
+  // Outgoing video, once the peer has sent a receiver report for it
+  uplink: UplinkStats | null;
+}
+
+export interface CallQualityReport {
+  quality: CallQuality;
+  sampleCount: number;
+  averageBitrate: number;
+  averagePacketLoss: number;
+  averageRoundTripTime: number | null;
+  averageJitter: number | null;
+}
+
+const POLL_INTERVAL_MS = 2000;
+// Keeps an hour of samples at the default poll interval
+const MAX_SAMPLES = 1800;
+
+interface Counters {
+  timestamp: number;
+  bytesSent: number;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+export function rateQuality(sample: CallStatsSample | null): CallQuality {
+  if (!sample) return "unknown";
+
+  const { packetLoss, roundTripTime, jitter } = sample;
+  if (packetLoss > 5 || (roundTripTime ?? 0) > 400 || (jitter ?? 0) > 50) {
+    return "poor";
+  }
+  if (packetLoss > 1 || (roundTripTime ?? 0) > 200 || (jitter ?? 0) > 30) {
+    return "good";
+  }
+  return "excellent";
+}
+
+// Rates our send path only, which is what outgoing video quality should
+// follow. The inbound figures rateQuality uses describe the peer's uplink.
+export function rateUplink(uplink: UplinkStats | null): CallQuality {
+  if (!uplink) return "unknown";
+
+  const { packetLoss, roundTripTime, jitter, qualityLimitationReason } = uplink;
+  if (packetLoss > 5 || (roundTripTime ?? 0) > 400 || (jitter ?? 0) > 50) {
+    return "poor";
+  }
+  // The encoder is already holding back for bandwidth, so there's no room
+  // to step up, but it isn't a reason on its own to step down: it's also
+  // what the bandwidth estimate looks like while it ramps up
+  if (
+    packetLoss > 1 ||
+    (roundTripTime ?? 0) > 200 ||
+    (jitter ?? 0) > 30 ||
+    qualityLimitationReason === "bandwidth"
+  ) {
+    return "good";
+  }
+  return "excellent";
+}
+
+const average = (values: number[]): number | null =>
+  values.length
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+
+export function buildQualityReport(
+  samples: CallStatsSample[]
+): CallQualityReport {
+  const present = (values: (number | null)[]) =>
+    values.filter((value): value is number => value !== null);
+
+  const summary: CallStatsSample | null = samples.length
+    ? {
+        timestamp: Date.now(),
+        outboundBitrate: average(samples.map((s) => s.outboundBitrate)) ?? 0,
+        inboundBitrate: average(samples.map((s) => s.inboundBitrate)) ?? 0,
+        packetLoss: average(samples.map((s) => s.packetLoss)) ?? 0,
+        jitter: average(present(samples.map((s) => s.jitter))),
+        roundTripTime: average(present(samples.map((s) => s.roundTripTime))),
+        resolution: null,
+        frameRate: null,
+        uplink: null,
+      }
+    : null;
+
+  return {
+    quality: rateQuality(summary),
+    sampleCount: samples.length,
+    averageBitrate: summary?.inboundBitrate ?? 0,
+    averagePacketLoss: summary?.packetLoss ?? 0,
+    averageRoundTripTime: summary?.roundTripTime ?? null,
+    averageJitter: summary?.jitter ?? null,
+  };
+}
+
+export class CallStatsCollector {
+  private interval: NodeJS.Timeout | null = null;
+  private previous: Counters | null = null;
+  private samples: CallStatsSample[] = [];
+
+  constructor(
+    private readonly getStats: () => Promise<RTCStatsReport | null>,
+    private readonly pollInterval = POLL_INTERVAL_MS
+  ) {}
+
+  public start(onSample: (sample: CallStatsSample) => void): void {
+    this.stop();
+    this.interval = setInterval(async () => {
+      try {
+        const report = await this.getStats();
+        const sample = report && this.collect(report);
+        if (sample) onSample(sample);
+      } catch (error) {
+        console.error("Error collecting call stats:", error);
+      }
+    }, this.pollInterval);
+  }
+
+  public stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    this.previous = null;
+  }
+
+  // Clears the time series before a new call
+  public reset(): void {
+    this.stop();
+    this.samples = [];
+  }
+
+  public getSamples(): CallStatsSample[] {
+    return this.samples;
+  }
+
+  private collect(report: RTCStatsReport): CallStatsSample | null {
+    const counters: Counters = {
+      timestamp: Date.now(),
+      bytesSent: 0,
+      bytesReceived: 0,
+      packetsReceived: 0,
+      packetsLost: 0,
+    };
+    let jitter: number | null = null;
+    let roundTripTime: number | null = null;
+    let resolution: CallStatsSample["resolution"] = null;
+    let frameRate: number | null = null;
+    // Only assigned inside the callback, which would narrow it to null
+    let uplink = null as UplinkStats | null;
+    let qualityLimitationReason: UplinkStats["qualityLimitationReason"] = null;
+
+    report.forEach((stat) => {
+      switch (stat.type) {
+        case "outbound-rtp":
+          counters.bytesSent += stat.bytesSent ?? 0;
+          if (stat.kind === "video" && stat.qualityLimitationReason) {
+            qualityLimitationReason = stat.qualityLimitationReason;
+          }
+          break;
+
+        case "remote-inbound-rtp":
+          if (stat.kind === "video") {
+            uplink = {
+              packetLoss: Math.max(0, (stat.fractionLost ?? 0) * 100),
+              jitter:
+                typeof stat.jitter === "number" ? stat.jitter * 1000 : null,
+              roundTripTime:
+                typeof stat.roundTripTime === "number"
+                  ? stat.roundTripTime * 1000
+                  : null,
+              qualityLimitationReason: null,
+            };
+          }
+          break;
+
+        case "inbound-rtp":
+          counters.bytesReceived += stat.bytesReceived ?? 0;
+          counters.packetsReceived += stat.packetsReceived ?? 0;
+          counters.packetsLost += stat.packetsLost ?? 0;
+          if (typeof stat.jitter === "number") {
+            jitter = Math.max(jitter ?? 0, stat.jitter * 1000);
+          }
+          if (stat.kind === "video" && stat.frameWidth) {
+            resolution = { width: stat.frameWidth, height: stat.frameHeight };
+            frameRate = stat.framesPerSecond ?? null;
+          }
+          break;
+
+        case "candidate-pair":
+          if (
+            stat.nominated &&
+            stat.state === "succeeded" &&
+            typeof stat.currentRoundTripTime === "number"
+          ) {
+            roundTripTime = stat.currentRoundTripTime * 1000;
+          }
+          break;
+      }
+    });
+
+    const previous = this.previous;
+    this.previous = counters;
+    // The first report only establishes the baseline for the counters
+    if (!previous) return null;
+
+    const seconds = (counters.timestamp - previous.timestamp) / 1000;
+    const kbps = (bytes: number) => Math.max(0, (bytes * 8) / 1000 / seconds);
+    const received = counters.packetsReceived - previous.packetsReceived;
+    const lost = counters.packetsLost - previous.packetsLost;
+
+    const sample: CallStatsSample = {
+      timestamp: counters.timestamp,
+      outboundBitrate: kbps(counters.bytesSent - previous.bytesSent),
+      inboundBitrate: kbps(counters.bytesReceived - previous.bytesReceived),
+      packetLoss:
+        received + lost > 0 ? Math.max(0, (lost / (received + lost)) * 100) : 0,
+      jitter,
+      roundTripTime,
+      resolution,
+      frameRate,
+      uplink: uplink && { ...uplink, qualityLimitationReason },
+    };
+
+    this.samples.push(sample);
+    if (this.samples.length > MAX_SAMPLES) this.samples.shift();
+
+    return sample;
+  }
+}
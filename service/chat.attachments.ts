@@ -0,0 +1,68 @@
+// What can be attached to a direct message, checked before anything is
+// uploaded so the user hears about a bad file straight away
+
+export type AttachmentKind = "image" | "video" | "audio" | "document";
+
+export interface MessageAttachment {
+  id: string;
+  kind: AttachmentKind;
+  url: string;
+  name: string;
+  mime_type: string;
+  // Bytes
+  size: number;
+  // Preview the server generates for images and videos
+  thumbnail_url?: string;
+}
+
+const MB = 1024 * 1024;
+
+export const MAX_ATTACHMENT_SIZE: Record<AttachmentKind, number> = {
+  image: 10 * MB,
+  video: 100 * MB,
+  audio: 25 * MB,
+  document: 25 * MB,
+};
+
+const DOCUMENT_TYPES = [
+  "application/pdf",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "text/plain",
+  "text/csv",
+];
+
+// For the file picker's `accept` attribute
+export const ACCEPTED_ATTACHMENT_TYPES = [
+  "image/*",
+  "video/*",
+  "audio/*",
+  ...DOCUMENT_TYPES,
+].join(",");
+
+export const getAttachmentKind = (mimeType: string): AttachmentKind | null => {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("video/")) return "video";
+  if (mimeType.startsWith("audio/")) return "audio";
+  if (DOCUMENT_TYPES.includes(mimeType)) return "document";
+  return null;
+};
+
+// Returns why the file can't be sent, or null if it's fine
+export const validateAttachment = (file: File): string | null => {
+  const kind = getAttachmentKind(file.type);
+  if (!kind) {
+    return "This file type isn't supported.";
+  }
+  if (file.size === 0) {
+    return "This file is empty.";
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE[kind]) {
+    return `${kind[0].toUpperCase()}${kind.slice(1)}s can be up to ${
+      MAX_ATTACHMENT_SIZE[kind] / MB
+    } MB.`;
+  }
+  return null;
+};
@@ -0,0 +1,152 @@
+// Direct messages waiting to reach the server. Entries are kept in IndexedDB
+// until the REST call succeeds, so nothing typed while offline is lost when
+// the tab closes. The store is shared by everyone who signs in on this
+// browser, so entries are only ever read back for the user who wrote them.
+
+import { openDatabase, promisifyRequest } from "@/lib/indexed-db";
+import type { Message, User } from "./chat.service";
+import type { MessageAttachment } from "./chat.attachments";
+
+export interface OutboxEntry {
+  // Client-generated id; doubles as the optimistic message's id
+  clientId: string;
+  receiverId: string;
+  conversationId: string;
+  message: string;
+  // Already uploaded by the time the message is queued
+  attachment?: MessageAttachment | null;
+  // The signed-in user who wrote it; nobody else may send it
+  sender: User;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  // Gave up retrying on its own; only the user can retry it now
+  failed: boolean;
+}
+
+const DB_NAME = "chatOutbox";
+const DB_VERSION = 1;
+const STORE_NAME = "messages";
+
+// Server errors are retried this often before the message is marked failed.
+// Network errors keep retrying, since they clear up once we're back online.
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 60000;
+
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_MS);
+
+// The optimistic message shown while an entry is in the outbox
+export const toPendingMessage = (entry: OutboxEntry): Message => ({
+  id: entry.clientId,
+  client_id: entry.clientId,
+  message: entry.message,
+  created_at: entry.createdAt,
+  status: "SENT",
+  sender: entry.sender,
+  receiver: { id: entry.receiverId, name: "" },
+  attachment: entry.attachment,
+  delivery: entry.failed ? "failed" : "pending",
+});
+
+export class ChatOutbox {
+  private static instance: ChatOutbox;
+  private db: Promise<IDBDatabase | null> | null = null;
+  private memory = new Map<string, OutboxEntry>();
+
+  private constructor() {}
+
+  public static getInstance(): ChatOutbox {
+    if (!ChatOutbox.instance) {
+      ChatOutbox.instance = new ChatOutbox();
+    }
+    return ChatOutbox.instance;
+  }
+
+  public async add(
+    entry: Omit<OutboxEntry, "attempts" | "nextAttemptAt" | "failed">
+  ): Promise<OutboxEntry> {
+    const queued: OutboxEntry = {
+      ...entry,
+      attempts: 0,
+      nextAttemptAt: 0,
+      failed: false,
+    };
+    await this.put(queued);
+    return queued;
+  }
+
+  public async remove(clientId: string): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memory.delete(clientId);
+      return;
+    }
+    await promisifyRequest(this.store(db, "readwrite").delete(clientId));
+  }
+
+  // userId's entries, oldest first, so messages go out in the order they
+  // were written
+  public async getAll(userId: string): Promise<OutboxEntry[]> {
+    const entries = await this.getEntries();
+    return entries
+      .filter((entry) => entry.sender.id === userId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  // Schedules the next attempt with exponential backoff
+  public async recordFailure(
+    entry: OutboxEntry,
+    isNetworkError: boolean
+  ): Promise<OutboxEntry> {
+    const attempts = entry.attempts + 1;
+    const updated: OutboxEntry = {
+      ...entry,
+      attempts,
+      nextAttemptAt: Date.now() + getRetryDelay(attempts),
+      failed: !isNetworkError && attempts >= MAX_ATTEMPTS,
+    };
+    await this.put(updated);
+    return updated;
+  }
+
+  public async resetForRetry(clientId: string): Promise<void> {
+    const entry = (await this.getEntries()).find(
+      (e) => e.clientId === clientId
+    );
+    if (!entry) return;
+    await this.put({ ...entry, attempts: 0, nextAttemptAt: 0, failed: false });
+  }
+
+  private async getEntries(): Promise<OutboxEntry[]> {
+    const db = await this.open();
+    return db
+      ? await promisifyRequest<OutboxEntry[]>(
+          this.store(db, "readonly").getAll()
+        )
+      : Array.from(this.memory.values());
+  }
+
+  private async put(entry: OutboxEntry): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memory.set(entry.clientId, entry);
+      return;
+    }
+    await promisifyRequest(this.store(db, "readwrite").put(entry));
+  }
+
+  private store(db: IDBDatabase, mode: IDBTransactionMode): IDBObjectStore {
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        db.createObjectStore(STORE_NAME, { keyPath: "clientId" });
+      });
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,42 @@
+// Emoji reactions, shared by direct messages and in-call chat. Each reaction
+// lists who used it, so counts and "did I react" both come from one place.
+
+export interface MessageReaction {
+  emoji: string;
+  user_ids: string[];
+}
+
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🙏"];
+
+export const hasReacted = (
+  reactions: MessageReaction[] | undefined,
+  emoji: string,
+  userId: string
+): boolean =>
+  !!reactions?.some((r) => r.emoji === emoji && r.user_ids.includes(userId));
+
+// Returns the reactions with userId's emoji added or removed. Reactions
+// nobody uses any more are dropped.
+export const applyReaction = (
+  reactions: MessageReaction[] | undefined,
+  emoji: string,
+  userId: string,
+  added: boolean
+): MessageReaction[] => {
+  const next = (reactions ?? []).map((r) =>
+    r.emoji === emoji
+      ? { ...r, user_ids: r.user_ids.filter((id) => id !== userId) }
+      : r
+  );
+
+  if (added) {
+    const existing = next.find((r) => r.emoji === emoji);
+    if (existing) {
+      existing.user_ids.push(userId);
+    } else {
+      next.push({ emoji, user_ids: [userId] });
+    }
+  }
+
+  return next.filter((r) => r.user_ids.length > 0);
+};
@@ -1,3 +1,12 @@
+import type { SocketService } from "./socket.service";
+import type {
+  CallChatMessage,
+  MessageReactionPayload,
+  SocketChatMessage,
+} from "./socket.protocol";
+import type { MessageAttachment } from "./chat.attachments";
+import type { MessageReaction } from "./chat.reactions";
+
 export interface User {
   id: string;
   name: string;
@@ -14,9 +23,29 @@ export interface Message {
   status: "SENT" | "DELIVERED" | "READ";
   sender: User;
   receiver: User;
-  attachment?: any;
+  attachment?: MessageAttachment | null;
+  // Id the sending client generated, echoed back by the server
+  client_id?: string;
+  reactions?: MessageReaction[];
+  edited_at?: string | null;
+  // Set when deleted for everyone; the text and attachment are gone
+  deleted_at?: string | null;
+  // Local only: set while the message is still in the outbox
+  delivery?: "pending" | "failed";
+}
+
+// "me" hides the message from your own history only
+export type DeleteScope = "me" | "everyone";
+
+// One page of a conversation's history, oldest message first
+export interface MessagePage {
+  messages: Message[];
+  // Whether there are older messages before this page
+  hasMore: boolean;
 }
 
+export const MESSAGE_PAGE_SIZE = 30;
+
 export interface Conversation {
   id: string;
   creator_id: string;
@@ -34,7 +63,7 @@ export class ChatService {
   private baseUrl = "";
   private token = "";
   private isInitialized = false;
-  private socketService: any = null;
+  private socketService: SocketService | null = null;
 
   private constructor() {
     // Initialize from localStorage if available
@@ -78,7 +107,7 @@ export class ChatService {
     }
   }
 
-  public setSocketService(socketService: any): void {
+  public setSocketService(socketService: SocketService): void {
     this.socketService = socketService;
     console.log("Socket service set in ChatService");
   }
@@ -178,7 +207,15 @@ export class ChatService {
     }
   }
 
-  public async getMessages(conversationId: string): Promise<Message[]> {
+  // Latest messages by default; pass `before` (a message id) to page back
+  // through older history
+  public async getMessages(
+    conversationId: string,
+    {
+      before,
+      limit = MESSAGE_PAGE_SIZE,
+    }: { before?: string; limit?: number } = {}
+  ): Promise<MessagePage> {
     try {
       console.log("Fetching messages for conversation:", conversationId);
       console.log(
@@ -186,8 +223,14 @@ export class ChatService {
         this.token ? this.token.substring(0, 10) + "..." : "No token"
       );
 
+      const params = new URLSearchParams({
+        conversation_id: conversationId,
+        limit: String(limit),
+      });
+      if (before) params.set("before", before);
+
       const response = await this.authenticatedFetch(
-        `${this.baseUrl}/api/chat/message?conversation_id=${conversationId}`
+        `${this.baseUrl}/api/chat/message?${params}`
       );
 
       if (!response.ok) {
@@ -200,17 +243,122 @@ export class ChatService {
         throw new Error(data.message || "Failed to get messages");
       }
 
-      return data.data;
+      const messages: Message[] = data.data;
+      return {
+        messages,
+        hasMore: data.meta?.has_more ?? messages.length >= limit,
+      };
     } catch (error) {
       console.error("Error getting messages:", error);
       throw error;
     }
   }
 
+  // The in-call chat transcript kept with an appointment, oldest first
+  public async getCallChatMessages(
+    appointmentId: string
+  ): Promise<CallChatMessage[]> {
+    try {
+      const response = await this.authenticatedFetch(
+        `${this.baseUrl}/api/chat/call/${appointmentId}`
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await this.safeParseJSON(response);
+
+      if (!data.success) {
+        throw new Error(data.message || "Failed to get call chat messages");
+      }
+
+      return data.data;
+    } catch (error) {
+      console.error("Error getting call chat messages:", error);
+      throw error;
+    }
+  }
+
+  // Uploads with XMLHttpRequest since fetch can't report upload progress.
+  // Aborting the signal cancels the upload and rejects with an AbortError.
+  public uploadAttachment(
+    file: File,
+    {
+      onProgress,
+      signal,
+    }: { onProgress?: (fraction: number) => void; signal?: AbortSignal } = {}
+  ): Promise<MessageAttachment> {
+    return new Promise((resolve, reject) => {
+      if (!this.isConfigured()) {
+        reject(new Error("Chat service not configured"));
+        return;
+      }
+      if (signal?.aborted) {
+        reject(new DOMException("Upload cancelled", "AbortError"));
+        return;
+      }
+
+      // Ensure we have the latest token from localStorage
+      const storedToken = localStorage.getItem("token");
+      if (storedToken && storedToken !== this.token) {
+        this.token = storedToken;
+      }
+
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const xhr = new XMLHttpRequest();
+      xhr.open("POST", `${this.baseUrl}/api/chat/attachment`);
+      xhr.setRequestHeader("Authorization", `Bearer ${this.token}`);
+
+      const handleAbort = () => xhr.abort();
+      signal?.addEventListener("abort", handleAbort);
+      const settle = () => signal?.removeEventListener("abort", handleAbort);
+
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+      };
+
+      xhr.onload = () => {
+        settle();
+        if (xhr.status === 401) {
+          reject(new Error("Authentication failed: Please log in again"));
+          return;
+        }
+        if (xhr.status < 200 || xhr.status >= 300) {
+          reject(new Error(`HTTP error! status: ${xhr.status}`));
+          return;
+        }
+        try {
+          const data = JSON.parse(xhr.responseText);
+          if (!data.success) {
+            throw new Error(data.message || "Failed to upload attachment");
+          }
+          resolve(data.data);
+        } catch (error) {
+          reject(error);
+        }
+      };
+      xhr.onerror = () => {
+        settle();
+        reject(new TypeError("Network error while uploading attachment"));
+      };
+      xhr.onabort = () => {
+        settle();
+        reject(new DOMException("Upload cancelled", "AbortError"));
+      };
+
+      xhr.send(formData);
+    });
+  }
+
   public async sendMessage(
     receiverId: string,
     conversationId: string,
-    message: string
+    message: string,
+    clientId?: string,
+    attachment?: MessageAttachment | null
   ): Promise<any> {
     try {
       console.log(
@@ -231,6 +379,9 @@ export class ChatService {
             receiver_id: receiverId,
             conversation_id: conversationId,
             message,
+            // Lets the server drop duplicates when a retry follows a lost reply
+            client_id: clientId,
+            attachment_id: attachment?.id,
           }),
         }
       );
@@ -252,13 +403,15 @@ export class ChatService {
         const currentUser = this.getCurrentUser();
 
         // Create a message object with the necessary properties
-        const socketMessage = {
+        const socketMessage: SocketChatMessage = {
           conversation_id: conversationId,
           message,
-          sender: currentUser || { id: "unknown" },
-          receiver: { id: receiverId },
+          sender: currentUser || { id: "unknown", name: "Unknown" },
+          receiver: { id: receiverId, name: "" },
           created_at: new Date().toISOString(),
           id: data.data?.id || Date.now().toString(),
+          client_id: clientId,
+          attachment: data.data?.attachment ?? attachment,
           status: "SENT",
         };
 
@@ -272,6 +425,126 @@ export class ChatService {
     }
   }
 
+  public async editMessage(
+    receiverId: string,
+    conversationId: string,
+    messageId: string,
+    message: string
+  ): Promise<Message> {
+    try {
+      const response = await this.authenticatedFetch(
+        `${this.baseUrl}/api/chat/message/${messageId}`,
+        {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ message }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await this.safeParseJSON(response);
+
+      if (!data.success) {
+        throw new Error(data.message || "Failed to edit message");
+      }
+
+      const edited: Message = data.data;
+      this.socketService?.sendMessageEdited(receiverId, {
+        message_id: messageId,
+        conversation_id: conversationId,
+        message: edited.message,
+        edited_at: edited.edited_at || new Date().toISOString(),
+      });
+
+      return edited;
+    } catch (error) {
+      console.error("Error editing message:", error);
+      throw error;
+    }
+  }
+
+  public async deleteMessage(
+    receiverId: string,
+    conversationId: string,
+    messageId: string,
+    scope: DeleteScope
+  ): Promise<string> {
+    try {
+      const response = await this.authenticatedFetch(
+        `${this.baseUrl}/api/chat/message/${messageId}?scope=${scope}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await this.safeParseJSON(response);
+
+      if (!data.success) {
+        throw new Error(data.message || "Failed to delete message");
+      }
+
+      const deletedAt: string =
+        data.data?.deleted_at || new Date().toISOString();
+      if (scope === "everyone") {
+        this.socketService?.sendMessageDeleted(receiverId, {
+          message_id: messageId,
+          conversation_id: conversationId,
+          deleted_at: deletedAt,
+        });
+      }
+
+      return deletedAt;
+    } catch (error) {
+      console.error("Error deleting message:", error);
+      throw error;
+    }
+  }
+
+  // Adds or removes the current user's emoji on a message
+  public async setReaction(
+    receiverId: string,
+    reaction: MessageReactionPayload
+  ): Promise<void> {
+    const { message_id, emoji, added } = reaction;
+    try {
+      const url = `${this.baseUrl}/api/chat/message/${message_id}/reaction`;
+      const response = await this.authenticatedFetch(
+        added ? url : `${url}?emoji=${encodeURIComponent(emoji)}`,
+        added
+          ? {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+              },
+              body: JSON.stringify({ emoji }),
+            }
+          : { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await this.safeParseJSON(response);
+
+      if (!data.success) {
+        throw new Error(data.message || "Failed to update reaction");
+      }
+
+      this.socketService?.sendMessageReaction(receiverId, reaction);
+    } catch (error) {
+      console.error("Error updating reaction:", error);
+      throw error;
+    }
+  }
+
   // Helper method to get the current user information
   private getCurrentUser(): User | null {
     if (typeof window !== "undefined") {
@@ -325,6 +598,10 @@ export class ChatService {
     }
   }
 
+  public updateMessageStatus(messageId: string, status: Message["status"]): void {
+    this.socketService?.updateMessageStatus(messageId, status);
+  }
+
   // Methods for typing indicators
   public sendTypingStatus(receiverId: string, conversationId: string): void {
     const socket = this.socketService?.getSocket();
@@ -0,0 +1,225 @@
+// ICE (STUN/TURN) configuration for peer connections. Servers and their
+// short-lived TURN credentials come from the backend; NEXT_PUBLIC_ICE_SERVERS
+// (a JSON RTCIceServer[]) is used when the endpoint isn't available.
+
+export interface IceConfigResponse {
+  iceServers: RTCIceServer[];
+  // Lifetime of the TURN credentials in seconds
+  ttl?: number;
+  iceTransportPolicy?: RTCIceTransportPolicy;
+}
+
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  { urls: "stun:stun.l.google.com:19302" },
+];
+const RELAY_ONLY_STORAGE_KEY = "callRelayOnly";
+// Refresh credentials once this share of their lifetime has passed
+const REFRESH_AT = 0.8;
+// After falling back, try the endpoint again on the next call after this
+const FALLBACK_RETRY_MS = 60000;
+// A failed refresh is retried with backoff while the credentials we already
+// have are still valid
+const REFRESH_RETRY_BASE_MS = 5000;
+const REFRESH_RETRY_MAX_MS = 60000;
+
+const isTurnServer = (server: RTCIceServer) =>
+  [server.urls].flat().some((url) => /^turns?:/.test(url));
+
+const loadEnvIceServers = (): RTCIceServer[] => {
+  const raw = process.env.NEXT_PUBLIC_ICE_SERVERS;
+  if (!raw) return DEFAULT_ICE_SERVERS;
+
+  try {
+    return JSON.parse(raw) as RTCIceServer[];
+  } catch (error) {
+    console.error("Invalid NEXT_PUBLIC_ICE_SERVERS:", error);
+    return DEFAULT_ICE_SERVERS;
+  }
+};
+
+export class IceConfigService {
+  private static instance: IceConfigService;
+  private baseUrl = "";
+  private token = "";
+  private config: IceConfigResponse | null = null;
+  // When getConfiguration should fetch again; earlier than the credentials
+  // actually expire
+  private expiresAt = 0;
+  private credentialsExpireAt = 0;
+  private refreshAttempts = 0;
+  private pending: Promise<IceConfigResponse> | null = null;
+  private refreshTimeout: NodeJS.Timeout | null = null;
+  private listeners = new Set<(configuration: RTCConfiguration) => void>();
+
+  private constructor() {}
+
+  public static getInstance(): IceConfigService {
+    if (!IceConfigService.instance) {
+      IceConfigService.instance = new IceConfigService();
+    }
+    return IceConfigService.instance;
+  }
+
+  public setConfig(baseUrl: string, token: string): void {
+    if (this.baseUrl === baseUrl && this.token === token) return;
+
+    this.baseUrl = baseUrl;
+    this.token = token;
+    // Credentials are per user; never reuse another session's
+    this.config = null;
+    this.expiresAt = 0;
+    this.credentialsExpireAt = 0;
+    this.refreshAttempts = 0;
+  }
+
+  // Called with the new configuration whenever credentials are refreshed or
+  // the privacy mode changes, so live peer connections can pick it up
+  public subscribe(
+    listener: (configuration: RTCConfiguration) => void
+  ): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public async getConfiguration(): Promise<RTCConfiguration> {
+    const isFresh = this.config && Date.now() < this.expiresAt;
+    const config = isFresh ? this.config! : await this.fetchConfig();
+    return this.toRtcConfiguration(config);
+  }
+
+  // Relay-only mode sends all media through TURN so the other participant
+  // never learns this user's IP address
+  public isRelayOnly(): boolean {
+    if (typeof window === "undefined") return false;
+    return localStorage.getItem(RELAY_ONLY_STORAGE_KEY) === "true";
+  }
+
+  public async setRelayOnly(enabled: boolean): Promise<RTCConfiguration> {
+    localStorage.setItem(RELAY_ONLY_STORAGE_KEY, String(enabled));
+    const configuration = await this.getConfiguration();
+    this.notify(configuration);
+    return configuration;
+  }
+
+  public hasTurnServers(): boolean {
+    return !!this.config?.iceServers.some(isTurnServer);
+  }
+
+  private toRtcConfiguration(config: IceConfigResponse): RTCConfiguration {
+    return {
+      iceServers: config.iceServers,
+      iceTransportPolicy: this.isRelayOnly()
+        ? "relay"
+        : config.iceTransportPolicy ?? "all",
+    };
+  }
+
+  private fetchConfig(): Promise<IceConfigResponse> {
+    // Share one request between concurrent callers
+    if (!this.pending) {
+      this.pending = this.requestConfig().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private hasValidCredentials(): boolean {
+    return !!this.config && Date.now() < this.credentialsExpireAt;
+  }
+
+  private async requestConfig(): Promise<IceConfigResponse> {
+    let config: IceConfigResponse;
+
+    try {
+      if (!this.baseUrl || !this.token) {
+        throw new Error("ICE config endpoint not configured");
+      }
+
+      const response = await fetch(`${this.baseUrl}/api/call/ice-servers`, {
+        headers: { Authorization: `Bearer ${this.token}` },
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ICE servers: ${response.status}`);
+      }
+
+      const result = await response.json();
+      config = (result.data ?? result) as IceConfigResponse;
+    } catch (error) {
+      // A blip shouldn't cost live calls TURN credentials that still work
+      if (this.hasValidCredentials()) {
+        console.warn(
+          "Keeping current ICE servers after a failed refresh:",
+          error
+        );
+        this.scheduleRetry();
+        return this.config!;
+      }
+
+      console.warn("Using fallback ICE servers:", error);
+      this.config = { iceServers: loadEnvIceServers() };
+      this.expiresAt = Date.now() + FALLBACK_RETRY_MS;
+      this.credentialsExpireAt = 0;
+      return this.config;
+    }
+
+    this.config = config;
+    this.refreshAttempts = 0;
+    this.scheduleRefresh(config.ttl);
+    return config;
+  }
+
+  private scheduleRefresh(ttl?: number): void {
+    if (this.refreshTimeout) {
+      clearTimeout(this.refreshTimeout);
+      this.refreshTimeout = null;
+    }
+
+    // Servers without credentials don't expire
+    if (!ttl) {
+      this.expiresAt = Infinity;
+      this.credentialsExpireAt = Infinity;
+      return;
+    }
+
+    const refreshIn = ttl * 1000 * REFRESH_AT;
+    this.expiresAt = Date.now() + refreshIn;
+    this.credentialsExpireAt = Date.now() + ttl * 1000;
+    this.refreshTimeout = setTimeout(() => this.refresh(), refreshIn);
+  }
+
+  // Tries again before the current credentials run out
+  private scheduleRetry(): void {
+    if (this.refreshTimeout) clearTimeout(this.refreshTimeout);
+
+    const backoff = Math.min(
+      REFRESH_RETRY_BASE_MS * 2 ** this.refreshAttempts,
+      REFRESH_RETRY_MAX_MS
+    );
+    this.refreshAttempts += 1;
+    const retryIn = Math.min(backoff, this.credentialsExpireAt - Date.now());
+    this.expiresAt = Date.now() + retryIn;
+    this.refreshTimeout = setTimeout(() => this.refresh(), retryIn);
+  }
+
+  private async refresh(): Promise<void> {
+    this.refreshTimeout = null;
+    const previous = this.config;
+    const config = await this.fetchConfig();
+    // Live calls only hear about a config that actually changed: a failed
+    // refresh hands back the credentials they already have
+    if (config !== previous) this.notify(this.toRtcConfiguration(config));
+  }
+
+  private notify(configuration: RTCConfiguration): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(configuration);
+      } catch (error) {
+        console.error("Error in ICE config listener:", error);
+      }
+    });
+  }
+}
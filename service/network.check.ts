@@ -0,0 +1,105 @@
+// Loopback WebRTC connectivity test: two peer connections in this page
+// connect to each other using the real ICE servers, which shows whether media
+// can flow at all and which kinds of candidates (UDP via STUN, TURN relay) the
+// network allows.
+
+export interface ConnectivityReport {
+  // The two loopback peers connected
+  connected: boolean;
+  // A STUN server answered over UDP (server-reflexive candidate)
+  udp: boolean;
+  // A TURN server handed out a relay candidate
+  relay: boolean;
+  candidateTypes: RTCIceCandidateType[];
+  // Round trip of the selected candidate pair, in milliseconds
+  roundTripTime: number | null;
+}
+
+const CHECK_TIMEOUT_MS = 10000;
+
+const waitFor = (
+  isDone: () => boolean,
+  subscribe: (onChange: () => void) => void,
+  timeoutMs: number
+): Promise<void> =>
+  new Promise((resolve) => {
+    if (isDone()) return resolve();
+    const timeout = setTimeout(resolve, timeoutMs);
+    subscribe(() => {
+      if (isDone()) {
+        clearTimeout(timeout);
+        resolve();
+      }
+    });
+  });
+
+export async function runConnectivityCheck(
+  configuration: RTCConfiguration,
+  timeoutMs = CHECK_TIMEOUT_MS
+): Promise<ConnectivityReport> {
+  const caller = new RTCPeerConnection(configuration);
+  const callee = new RTCPeerConnection(configuration);
+  const candidateTypes = new Set<RTCIceCandidateType>();
+  let udp = false;
+
+  caller.onicecandidate = ({ candidate }) => {
+    if (!candidate) return;
+    if (candidate.type) candidateTypes.add(candidate.type);
+    if (candidate.type === "srflx" && candidate.protocol === "udp") udp = true;
+    callee.addIceCandidate(candidate).catch(() => undefined);
+  };
+  callee.onicecandidate = ({ candidate }) => {
+    if (candidate) caller.addIceCandidate(candidate).catch(() => undefined);
+  };
+
+  try {
+    // A data channel is enough to make the peers gather and connect
+    caller.createDataChannel("connectivity-check");
+
+    const offer = await caller.createOffer();
+    await caller.setLocalDescription(offer);
+    await callee.setRemoteDescription(offer);
+    const answer = await callee.createAnswer();
+    await callee.setLocalDescription(answer);
+    await caller.setRemoteDescription(answer);
+
+    const isSettled = () =>
+      ["connected", "failed", "closed"].includes(caller.connectionState);
+    await waitFor(
+      isSettled,
+      (onChange) => caller.addEventListener("connectionstatechange", onChange),
+      timeoutMs
+    );
+    // Keep listening for STUN/TURN candidates, which can arrive after the
+    // host candidates have already connected the loopback
+    await waitFor(
+      () => caller.iceGatheringState === "complete",
+      (onChange) =>
+        caller.addEventListener("icegatheringstatechange", onChange),
+      timeoutMs
+    );
+
+    let roundTripTime: number | null = null;
+    const stats = await caller.getStats();
+    stats.forEach((report) => {
+      if (
+        report.type === "candidate-pair" &&
+        report.nominated &&
+        typeof report.currentRoundTripTime === "number"
+      ) {
+        roundTripTime = report.currentRoundTripTime * 1000;
+      }
+    });
+
+    return {
+      connected: caller.connectionState === "connected",
+      udp,
+      relay: candidateTypes.has("relay"),
+      candidateTypes: [...candidateTypes],
+      roundTripTime,
+    };
+  } finally {
+    caller.close();
+    callee.close();
+  }
+}
@@ -0,0 +1,92 @@
+// Local store for recording chunks the server hasn't acknowledged yet. Chunks
+// live in IndexedDB so an upload can pick up where it left off after the
+// socket (or the whole page) goes away; browsers without IndexedDB, e.g. some
+// private modes, fall back to memory. The store outlives sign-outs, so every
+// chunk records who recorded it.
+
+import { openDatabase, promisifyRequest } from "@/lib/indexed-db";
+
+export interface RecordingChunkRecord {
+  recordingId: string;
+  sequence: number;
+  // The signed-in user who recorded it; only their session may upload it
+  userId: string;
+  appointmentId: string;
+  callId: string | null;
+  mimeType: string;
+  data: Blob;
+}
+
+const DB_NAME = "callRecordings";
+const DB_VERSION = 1;
+const STORE_NAME = "chunks";
+
+const chunkKey = (recordingId: string, sequence: number) =>
+  `${recordingId}:${sequence}`;
+
+const bySequence = (a: RecordingChunkRecord, b: RecordingChunkRecord) =>
+  a.recordingId === b.recordingId
+    ? a.sequence - b.sequence
+    : a.recordingId.localeCompare(b.recordingId);
+
+export class RecordingBuffer {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private memory = new Map<string, RecordingChunkRecord>();
+
+  public async put(chunk: RecordingChunkRecord): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memory.set(chunkKey(chunk.recordingId, chunk.sequence), chunk);
+      return;
+    }
+    await promisifyRequest(this.store(db, "readwrite").put(chunk));
+  }
+
+  public async get(
+    recordingId: string,
+    sequence: number
+  ): Promise<RecordingChunkRecord | undefined> {
+    const db = await this.open();
+    if (!db) return this.memory.get(chunkKey(recordingId, sequence));
+    return promisifyRequest<RecordingChunkRecord | undefined>(
+      this.store(db, "readonly").get([recordingId, sequence])
+    );
+  }
+
+  public async delete(recordingId: string, sequence: number): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memory.delete(chunkKey(recordingId, sequence));
+      return;
+    }
+    await promisifyRequest(
+      this.store(db, "readwrite").delete([recordingId, sequence])
+    );
+  }
+
+  // Everything still waiting for an ack, oldest first per recording
+  public async getAll(): Promise<RecordingChunkRecord[]> {
+    const db = await this.open();
+    const chunks = db
+      ? await promisifyRequest<RecordingChunkRecord[]>(
+          this.store(db, "readonly").getAll()
+        )
+      : Array.from(this.memory.values());
+    return chunks.sort(bySequence);
+  }
+
+  private store(db: IDBDatabase, mode: IDBTransactionMode): IDBObjectStore {
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        db.createObjectStore(STORE_NAME, {
+          keyPath: ["recordingId", "sequence"],
+        });
+      });
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,177 @@
+// Builds the stream a call recording is made from: both participants' audio
+// mixed through Web Audio and, for video calls, both camera feeds drawn onto
+// one canvas.
+
+export type RecordingLayout = "side-by-side" | "picture-in-picture";
+
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 720;
+const FRAME_RATE = 30;
+// Size of the local feed in picture-in-picture, relative to the canvas
+const PIP_SCALE = 0.25;
+const PIP_MARGIN = 24;
+
+const VIDEO_MIME_TYPES = ["video/webm;codecs=vp8,opus", "video/webm"];
+const AUDIO_MIME_TYPES = ["audio/webm;codecs=opus", "audio/webm"];
+
+// The first container/codec combination this browser can record
+export const pickRecordingMimeType = (isVideo: boolean): string => {
+  const candidates = isVideo ? VIDEO_MIME_TYPES : AUDIO_MIME_TYPES;
+  return (
+    candidates.find((type) => MediaRecorder.isTypeSupported(type)) ??
+    candidates[candidates.length - 1]
+  );
+};
+
+export class RecordingCompositor {
+  private audioContext: AudioContext;
+  private audioDestination: MediaStreamAudioDestinationNode;
+  private localAudioSource: MediaStreamAudioSourceNode | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private localVideo: HTMLVideoElement | null = null;
+  private remoteVideo: HTMLVideoElement | null = null;
+  private drawInterval: NodeJS.Timeout | null = null;
+  public readonly stream: MediaStream;
+
+  constructor(
+    localStream: MediaStream,
+    remoteStream: MediaStream | null,
+    isVideo: boolean,
+    private layout: RecordingLayout = "side-by-side"
+  ) {
+    this.audioContext = new AudioContext();
+    this.audioDestination = this.audioContext.createMediaStreamDestination();
+    this.localAudioSource = this.connectAudio(localStream);
+    this.connectAudio(remoteStream);
+
+    this.stream = new MediaStream(
+      this.audioDestination.stream.getAudioTracks()
+    );
+    if (isVideo) {
+      this.stream.addTrack(this.startVideo(localStream, remoteStream));
+    }
+  }
+
+  public setLayout(layout: RecordingLayout): void {
+    this.layout = layout;
+  }
+
+  // Called when the local mic or camera is switched mid-call, since the old
+  // track is stopped and would leave that side silent or frozen
+  public replaceLocalTrack(track: MediaStreamTrack): void {
+    if (track.kind === "audio") {
+      this.localAudioSource?.disconnect();
+      this.localAudioSource = this.connectAudio(new MediaStream([track]));
+      return;
+    }
+
+    if (!this.localVideo) return;
+    this.localVideo.srcObject = new MediaStream([track]);
+    this.localVideo.play().catch((error) => {
+      console.error("Error playing recording source:", error);
+    });
+  }
+
+  public stop(): void {
+    if (this.drawInterval) {
+      clearInterval(this.drawInterval);
+      this.drawInterval = null;
+    }
+    this.stream.getTracks().forEach((track) => track.stop());
+    [this.localVideo, this.remoteVideo].forEach((video) => {
+      if (video) video.srcObject = null;
+    });
+    this.audioContext.close();
+  }
+
+  private connectAudio(
+    source: MediaStream | null
+  ): MediaStreamAudioSourceNode | null {
+    if (!source?.getAudioTracks().length) return null;
+    const node = this.audioContext.createMediaStreamSource(source);
+    node.connect(this.audioDestination);
+    return node;
+  }
+
+  private startVideo(
+    localStream: MediaStream,
+    remoteStream: MediaStream | null
+  ): MediaStreamTrack {
+    this.canvas = document.createElement("canvas");
+    this.canvas.width = CANVAS_WIDTH;
+    this.canvas.height = CANVAS_HEIGHT;
+    const context = this.canvas.getContext("2d")!;
+
+    this.localVideo = this.createVideo(localStream);
+    this.remoteVideo = remoteStream ? this.createVideo(remoteStream) : null;
+
+    // A timer rather than requestAnimationFrame, which stops in background tabs
+    this.drawInterval = setInterval(
+      () => this.drawFrame(context),
+      1000 / FRAME_RATE
+    );
+
+    return this.canvas.captureStream(FRAME_RATE).getVideoTracks()[0];
+  }
+
+  private createVideo(stream: MediaStream): HTMLVideoElement {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = new MediaStream(stream.getVideoTracks());
+    video.play().catch((error) => {
+      console.error("Error playing recording source:", error);
+    });
+    return video;
+  }
+
+  private drawFrame(context: CanvasRenderingContext2D): void {
+    context.fillStyle = "#000";
+    context.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    if (this.layout === "picture-in-picture") {
+      this.drawVideo(context, this.remoteVideo, 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      const width = CANVAS_WIDTH * PIP_SCALE;
+      const height = CANVAS_HEIGHT * PIP_SCALE;
+      this.drawVideo(
+        context,
+        this.localVideo,
+        CANVAS_WIDTH - width - PIP_MARGIN,
+        CANVAS_HEIGHT - height - PIP_MARGIN,
+        width,
+        height
+      );
+      return;
+    }
+
+    const half = CANVAS_WIDTH / 2;
+    this.drawVideo(context, this.remoteVideo, 0, 0, half, CANVAS_HEIGHT);
+    this.drawVideo(context, this.localVideo, half, 0, half, CANVAS_HEIGHT);
+  }
+
+  // Letterboxes the frame into the given box, keeping its aspect ratio
+  private drawVideo(
+    context: CanvasRenderingContext2D,
+    video: HTMLVideoElement | null,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void {
+    if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+    const scale = Math.min(
+      width / video.videoWidth,
+      height / video.videoHeight
+    );
+    const drawWidth = video.videoWidth * scale;
+    const drawHeight = video.videoHeight * scale;
+    context.drawImage(
+      video,
+      x + (width - drawWidth) / 2,
+      y + (height - drawHeight) / 2,
+      drawWidth,
+      drawHeight
+    );
+  }
+}
@@ -0,0 +1,205 @@
+import { RecordingBuffer, type RecordingChunkRecord } from "./recording.buffer";
+import type { AppSocket, ChunkReceivedPayload } from "./socket.protocol";
+
+// Chunks sent but not yet acknowledged at any one time
+const MAX_IN_FLIGHT = 4;
+// Send a chunk again when the server hasn't acked it within this time
+const ACK_TIMEOUT_MS = 10000;
+
+interface ChunkRef {
+  recordingId: string;
+  sequence: number;
+}
+
+export interface RecordingSession {
+  recordingId: string;
+  appointmentId: string;
+  callId: string | null;
+  mimeType: string;
+}
+
+const refKey = ({ recordingId, sequence }: ChunkRef) =>
+  `${recordingId}:${sequence}`;
+
+const parseKey = (key: string): ChunkRef => {
+  const separator = key.lastIndexOf(":");
+  return {
+    recordingId: key.slice(0, separator),
+    sequence: Number(key.slice(separator + 1)),
+  };
+};
+
+/**
+ * Uploads call recording chunks as binary socket messages. Every chunk is
+ * numbered and kept in a local buffer until the server acknowledges it with
+ * chunkReceived; unacked chunks are sent again after a timeout or once the
+ * socket reconnects. Only a few chunks are in flight at once, so a slow link
+ * backs up into the buffer instead of the socket.
+ */
+export class RecordingUploader {
+  private buffer = new RecordingBuffer();
+  private session: RecordingSession | null = null;
+  private nextSequence = 0;
+  // Waiting to be sent, in upload order
+  private queue: ChunkRef[] = [];
+  private inFlight = new Map<string, NodeJS.Timeout>();
+  // Only this user's buffered chunks are uploaded
+  private userId: string | null = null;
+
+  constructor(private readonly getSocket: () => AppSocket | null) {}
+
+  // Called on sign-in and sign-out. Another user's chunks stay in the
+  // buffer, untouched, until they sign in again.
+  public setUser(userId: string | null): void {
+    if (userId === this.userId) return;
+
+    this.inFlight.forEach((timeout) => clearTimeout(timeout));
+    this.inFlight.clear();
+    this.queue = [];
+    this.session = null;
+    this.userId = userId;
+    if (userId) this.resume();
+  }
+
+  public begin(session: RecordingSession): void {
+    this.session = session;
+    this.nextSequence = 0;
+  }
+
+  public async enqueue(data: Blob): Promise<void> {
+    if (!this.session || !this.userId) return;
+
+    const chunk: RecordingChunkRecord = {
+      ...this.session,
+      userId: this.userId,
+      sequence: this.nextSequence++,
+      data,
+    };
+    await this.buffer.put(chunk);
+    this.queue.push({ recordingId: chunk.recordingId, sequence: chunk.sequence });
+    this.pump();
+  }
+
+  // Tells the server how many chunks make up the recording, so it can wait
+  // for any that are still on their way
+  public finish(): void {
+    if (!this.session) return;
+
+    const { appointmentId, recordingId } = this.session;
+    this.getSocket()?.emit("stopRecording", {
+      appointmentId,
+      recordingId,
+      lastSequence: this.nextSequence - 1,
+    });
+    this.session = null;
+  }
+
+  public async handleAck({
+    recordingId,
+    sequence,
+  }: ChunkReceivedPayload): Promise<void> {
+    const key = refKey({ recordingId, sequence });
+    this.release(key);
+    this.queue = this.queue.filter((ref) => refKey(ref) !== key);
+
+    try {
+      await this.buffer.delete(recordingId, sequence);
+    } catch (error) {
+      console.error("Error releasing recording chunk:", error);
+    }
+    this.pump();
+  }
+
+  // Socket dropped: anything in flight may be lost, so send it again later
+  public pause(): void {
+    this.inFlight.forEach((timeout) => clearTimeout(timeout));
+    const unacked = Array.from(this.inFlight.keys()).map(parseKey);
+    this.inFlight.clear();
+    this.requeue(unacked);
+  }
+
+  // Socket (re)connected: upload everything the current user still has
+  // buffered, including chunks left over from an earlier page load
+  public async resume(): Promise<void> {
+    const { userId } = this;
+    if (!userId) return;
+
+    try {
+      const buffered = (await this.buffer.getAll()).filter(
+        (chunk) => chunk.userId === userId
+      );
+      // Signed out while the buffer was being read
+      if (userId !== this.userId) return;
+      this.requeue(buffered);
+      this.pump();
+    } catch (error) {
+      console.error("Error resuming recording upload:", error);
+    }
+  }
+
+  private requeue(refs: ChunkRef[]): void {
+    const tracked = new Set([
+      ...this.queue.map(refKey),
+      ...this.inFlight.keys(),
+    ]);
+    const added = refs
+      .filter((ref) => !tracked.has(refKey(ref)))
+      .map(({ recordingId, sequence }) => ({ recordingId, sequence }));
+
+    this.queue = [...added, ...this.queue].sort((a, b) =>
+      a.recordingId === b.recordingId
+        ? a.sequence - b.sequence
+        : a.recordingId.localeCompare(b.recordingId)
+    );
+  }
+
+  private pump(): void {
+    if (!this.getSocket()?.connected) return;
+
+    while (this.inFlight.size < MAX_IN_FLIGHT && this.queue.length) {
+      this.send(this.queue.shift()!);
+    }
+  }
+
+  private async send(ref: ChunkRef): Promise<void> {
+    const key = refKey(ref);
+    this.inFlight.set(key, setTimeout(() => this.retry(ref), ACK_TIMEOUT_MS));
+
+    try {
+      const chunk = await this.buffer.get(ref.recordingId, ref.sequence);
+      // Acked while waiting in the queue, or not ours to send
+      if (!chunk || chunk.userId !== this.userId) {
+        this.release(key);
+        this.pump();
+        return;
+      }
+
+      // The socket went away again; resume() sends it later
+      const socket = this.getSocket();
+      if (!this.inFlight.has(key) || !socket?.connected) return;
+
+      socket.emit("recordingChunk", {
+        appointmentId: chunk.appointmentId,
+        callId: chunk.callId,
+        recordingId: chunk.recordingId,
+        sequence: chunk.sequence,
+        mimeType: chunk.mimeType,
+        chunk: await chunk.data.arrayBuffer(),
+      });
+    } catch (error) {
+      console.error("Error sending recording chunk:", error);
+    }
+  }
+
+  private retry(ref: ChunkRef): void {
+    this.inFlight.delete(refKey(ref));
+    this.requeue([ref]);
+    this.pump();
+  }
+
+  private release(key: string): void {
+    const timeout = this.inFlight.get(key);
+    if (timeout) clearTimeout(timeout);
+    this.inFlight.delete(key);
+  }
+}
@@ -0,0 +1,411 @@
+import type { Socket } from "socket.io-client";
+import type { Message } from "./chat.service";
+import type { MessageAttachment } from "./chat.attachments";
+import type { MessageReaction } from "./chat.reactions";
+
+// Shared payloads
+export type MessageStatus = Message["status"];
+
+export interface SocketChatMessage extends Message {
+  conversation_id: string;
+}
+
+export interface TypingData {
+  conversationId: string;
+  timestamp: string;
+  userName?: string;
+  avatarUrl?: string;
+  email?: string;
+}
+
+// In-call chat. The sender picks the id so the message can be matched up
+// with the stored transcript; the server fills in senderId.
+export interface CallChatMessage {
+  id: string;
+  appointmentId: string;
+  senderId: string;
+  message: string;
+  // Uploaded before the message is sent, so the URL works for everyone
+  attachment?: MessageAttachment | null;
+  // Voice notes only, e.g. "00:12"
+  audioDuration?: string;
+  reactions?: MessageReaction[];
+  timestamp: string;
+}
+
+// Someone added or removed an emoji on an in-call message; the server fills
+// in userId
+export interface CallChatReactionPayload {
+  appointmentId: string;
+  messageId: string;
+  emoji: string;
+  userId: string;
+  added: boolean;
+}
+
+// Server -> client payloads
+export interface UserStatusChangePayload {
+  user_id: string;
+  status: "online" | "offline";
+}
+
+export interface MessagePayload {
+  from: string;
+  data: SocketChatMessage;
+}
+
+export interface MessageStatusUpdatedPayload {
+  message_id: string;
+  status: MessageStatus;
+}
+
+export interface MessageEditedPayload {
+  message_id: string;
+  conversation_id: string;
+  message: string;
+  edited_at: string;
+}
+
+export interface MessageReactionPayload {
+  message_id: string;
+  conversation_id: string;
+  emoji: string;
+  user_id: string;
+  added: boolean;
+}
+
+// Only sent for "delete for everyone"; the message stays as a tombstone
+export interface MessageDeletedPayload {
+  message_id: string;
+  conversation_id: string;
+  deleted_at: string;
+}
+
+export interface TypingPayload {
+  from: string;
+  data: TypingData;
+}
+
+export interface ErrorPayload {
+  message: string;
+}
+
+export interface JoinErrorPayload extends ErrorPayload {
+  startTime?: string;
+}
+
+// Appointment as returned by the gateway's call access check
+export interface CallAppointment {
+  id: string;
+  user_id?: string;
+  date?: string;
+  start_time?: string;
+  end_time?: string;
+  service?: {
+    name?: string;
+    duration?: string;
+    user_id?: string;
+  };
+}
+
+export interface JoinedCallPayload {
+  success: boolean;
+  message: string;
+  appointment?: CallAppointment;
+}
+
+export interface CallErrorPayload extends ErrorPayload {
+  startTime?: string;
+}
+
+export interface CallRingingPayload {
+  callId: string;
+  receiver: string;
+}
+
+export interface IncomingCallPayload {
+  callId: string;
+  caller: string;
+  appointmentId: string;
+  offer: RTCSessionDescriptionInit;
+  isDoctorCall: boolean;
+}
+
+export interface CallAcceptedPayload {
+  callId: string;
+  answer: RTCSessionDescriptionInit;
+  receiver: string;
+  appointmentId: string;
+}
+
+export interface CallRejectedPayload {
+  receiver: string;
+  reason: string;
+}
+
+export interface CallNotAnsweredPayload {
+  callId: string;
+  receiver: string;
+  message: string;
+}
+
+export interface MissedCallPayload {
+  caller: string;
+  appointmentId: string;
+  isDoctorCall: boolean;
+  message: string;
+}
+
+export interface CallCancelledPayload {
+  callId: string;
+  reason: string;
+}
+
+export interface CallEndedPayload {
+  callId: string;
+  appointmentId: string;
+  endedBy?: string;
+  message: string;
+}
+
+export interface PeerReconnectingPayload {
+  callId: string;
+  userId: string;
+}
+
+export interface ReconnectSuccessPayload {
+  callId: string;
+  appointmentId: string;
+  otherPartyId: string;
+  role: "caller" | "receiver";
+}
+
+export interface IceCandidatePayload {
+  callId: string;
+  candidate: RTCIceCandidateInit;
+  from: string;
+}
+
+export interface RenegotiatePayload {
+  callId: string;
+  description: RTCSessionDescriptionInit;
+  from: string;
+}
+
+export interface HoldPayload {
+  callId: string;
+  from: string;
+}
+
+export interface ScreenSharePayload {
+  callId: string;
+  from: string;
+  active: boolean;
+}
+
+// The sender paused its video because the connection can't carry it
+export interface VideoFallbackPayload {
+  callId: string;
+  from: string;
+  suspended: boolean;
+}
+
+// Recording needs the other participant's consent: "request" asks for it,
+// "grant"/"decline" answer, "revoke" withdraws it mid-recording and "stop"
+// tells the peer the requester stopped (or cancelled) on their own
+export type RecordingConsentAction =
+  | "request"
+  | "grant"
+  | "decline"
+  | "revoke"
+  | "stop";
+
+export interface RecordingConsentPayload {
+  callId: string;
+  appointmentId: string;
+  from: string;
+  action: RecordingConsentAction;
+}
+
+// Acknowledges one recording chunk; chunks are numbered per recording
+export interface ChunkReceivedPayload {
+  recordingId: string;
+  sequence: number;
+  size?: number;
+}
+
+export interface RecordingChunkPayload {
+  appointmentId: string;
+  callId: string | null;
+  recordingId: string;
+  sequence: number;
+  mimeType: string;
+  chunk: ArrayBuffer;
+}
+
+export interface ServerToClientEvents {
+  // Presence & direct chat
+  userStatusChange: (data: UserStatusChangePayload) => void;
+  joinedRoom: (data: { room_id: string }) => void;
+  message: (data: MessagePayload) => void;
+  messageStatusUpdated: (data: MessageStatusUpdatedPayload) => void;
+  messageEdited: (data: MessageEditedPayload) => void;
+  messageDeleted: (data: MessageDeletedPayload) => void;
+  messageReaction: (data: MessageReactionPayload) => void;
+  userTyping: (data: TypingPayload) => void;
+  userStoppedTyping: (data: TypingPayload) => void;
+
+  // Call signalling
+  joinedCall: (data: JoinedCallPayload) => void;
+  joinError: (data: JoinErrorPayload) => void;
+  callError: (data: CallErrorPayload) => void;
+  callRinging: (data: CallRingingPayload) => void;
+  incomingCall: (data: IncomingCallPayload) => void;
+  callAccepted: (data: CallAcceptedPayload) => void;
+  answerError: (data: ErrorPayload) => void;
+  callRejected: (data: CallRejectedPayload) => void;
+  callNotAnswered: (data: CallNotAnsweredPayload) => void;
+  missedCall: (data: MissedCallPayload) => void;
+  callCancelled: (data: CallCancelledPayload) => void;
+  // Emitted with this spelling when the caller disconnects mid-ring
+  callCanceled: (data: CallCancelledPayload) => void;
+  callEnded: (data: CallEndedPayload) => void;
+  peerReconnecting: (data: PeerReconnectingPayload) => void;
+  reconnectSuccess: (data: ReconnectSuccessPayload) => void;
+  reconnectError: (data: ErrorPayload) => void;
+  iceCandidate: (data: IceCandidatePayload) => void;
+  renegotiate: (data: RenegotiatePayload) => void;
+  hold: (data: HoldPayload) => void;
+  resume: (data: HoldPayload) => void;
+  screenShare: (data: ScreenSharePayload) => void;
+  videoFallback: (data: VideoFallbackPayload) => void;
+
+  // In-call chat & recording
+  chatMessage: (data: CallChatMessage) => void;
+  chatReaction: (data: CallChatReactionPayload) => void;
+  recordingStarted: () => void;
+  recordingStopped: () => void;
+  recordingError: (data: ErrorPayload) => void;
+  recordingConsent: (data: RecordingConsentPayload) => void;
+  chunkReceived: (data: ChunkReceivedPayload) => void;
+}
+
+export interface ClientToServerEvents {
+  // Presence & direct chat
+  joinRoom: (data: { room_id: string }) => void;
+  sendMessage: (data: { to: string; data: SocketChatMessage }) => void;
+  editMessage: (data: { to: string; data: MessageEditedPayload }) => void;
+  deleteMessage: (data: { to: string; data: MessageDeletedPayload }) => void;
+  reactMessage: (data: { to: string; data: MessageReactionPayload }) => void;
+  updateMessageStatus: (data: {
+    message_id: string;
+    status: MessageStatus;
+  }) => void;
+  typing: (data: { to: string; data: TypingData }) => void;
+  stopTyping: (data: { to: string; data: TypingData }) => void;
+
+  // Call signalling
+  join: (data: { appointmentId: string }) => void;
+  call: (data: {
+    appointmentId: string;
+    receiver: string;
+    offer: RTCSessionDescriptionInit;
+  }) => void;
+  answer: (data: {
+    callId: string;
+    caller: string;
+    appointmentId: string;
+    answer: RTCSessionDescriptionInit;
+  }) => void;
+  rejectCall: (data: { callId: string; reason?: string }) => void;
+  endCall: (data: { callId: string; appointmentId: string }) => void;
+  reconnectCall: (data: { callId: string; appointmentId: string }) => void;
+  iceCandidate: (data: {
+    callId: string;
+    candidate: RTCIceCandidateInit;
+    to: string;
+  }) => void;
+  renegotiate: (data: {
+    callId: string;
+    description: RTCSessionDescriptionInit;
+    to: string;
+  }) => void;
+  hold: (data: { callId: string; to: string }) => void;
+  resume: (data: { callId: string; to: string }) => void;
+  screenShare: (data: { callId: string; to: string; active: boolean }) => void;
+  videoFallback: (data: {
+    callId: string;
+    to: string;
+    suspended: boolean;
+  }) => void;
+
+  // In-call chat & recording
+  chatMessage: (data: Omit<CallChatMessage, "senderId">) => void;
+  chatReaction: (data: Omit<CallChatReactionPayload, "userId">) => void;
+  startRecording: (data: { appointmentId: string; recordingId: string }) => void;
+  // lastSequence is the number of the final chunk, -1 when there were none
+  stopRecording: (data: {
+    appointmentId: string;
+    recordingId: string;
+    lastSequence: number;
+  }) => void;
+  recordingChunk: (data: RecordingChunkPayload) => void;
+  recordingConsent: (data: {
+    callId: string;
+    to: string;
+    appointmentId: string;
+    action: RecordingConsentAction;
+  }) => void;
+}
+
+// Local events SocketService publishes to its subscribers
+export interface SocketServiceEvents {
+  // Connection
+  connect: () => void;
+  disconnect: (reason: string) => void;
+  connectionError: (error: Error) => void;
+
+  // Presence & direct chat
+  messageReceived: (data: MessagePayload) => void;
+  messageStatusUpdated: (data: MessageStatusUpdatedPayload) => void;
+  messageEdited: (data: MessageEditedPayload) => void;
+  messageDeleted: (data: MessageDeletedPayload) => void;
+  messageReaction: (data: MessageReactionPayload) => void;
+  userStatusChange: (data: UserStatusChangePayload) => void;
+  userTyping: (data: TypingPayload) => void;
+  userStoppedTyping: (data: TypingPayload) => void;
+
+  // Call lifecycle
+  joinedCall: (data: JoinedCallPayload) => void;
+  joinError: (data: JoinErrorPayload) => void;
+  callError: (data: CallErrorPayload) => void;
+  callRinging: (data: CallRingingPayload) => void;
+  incomingCall: (data: IncomingCallPayload) => void;
+  callAccepted: (data: CallAcceptedPayload) => void;
+  callRejected: (data: CallRejectedPayload) => void;
+  callNotAnswered: (data: CallNotAnsweredPayload) => void;
+  callCancelled: (data: CallCancelledPayload) => void;
+  missedCall: (data: MissedCallPayload) => void;
+  callEnded: (data: CallEndedPayload) => void;
+  remoteStream: (stream: MediaStream) => void;
+  iceConnectionStateChange: (state: RTCIceConnectionState) => void;
+  reconnecting: () => void;
+  reconnected: () => void;
+  peerReconnecting: (data: PeerReconnectingPayload) => void;
+  reconnectFailed: (data: ErrorPayload) => void;
+  remoteHold: (data: HoldPayload) => void;
+  remoteResume: (data: HoldPayload) => void;
+  remoteScreenShare: (data: ScreenSharePayload) => void;
+  remoteVideoFallback: (data: VideoFallbackPayload) => void;
+  // The local share stopped outside the app, e.g. the browser's stop button
+  screenShareEnded: () => void;
+
+  // In-call chat & recording
+  chatMessage: (data: CallChatMessage) => void;
+  chatReaction: (data: CallChatReactionPayload) => void;
+  recordingStarted: () => void;
+  recordingStopped: () => void;
+  remoteRecordingConsent: (data: RecordingConsentPayload) => void;
+}
+
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
@@ -1,46 +1,69 @@
-import { type Socket, io } from "socket.io-client";
+import type { Dispatch } from "@reduxjs/toolkit";
+import { io } from "socket.io-client";
+import {
+  deviceConstraint,
+  type MediaDevicePreferences,
+} from "@/lib/media-devices";
 import { ChatService } from "./chat.service";
+import { IceConfigService } from "./ice.config";
+import {
+  pickRecordingMimeType,
+  RecordingCompositor,
+  type RecordingLayout,
+} from "./recording.compositor";
+import { RecordingUploader } from "./recording.uploader";
+import type {
+  AppSocket,
+  CallChatMessage,
+  CallChatReactionPayload,
+  ErrorPayload,
+  MessageDeletedPayload,
+  MessageEditedPayload,
+  MessageReactionPayload,
+  MessageStatus,
+  RecordingConsentAction,
+  SocketChatMessage,
+  SocketServiceEvents,
+  TypingData,
+} from "./socket.protocol";
 
 export class SocketService {
   private static instance: SocketService;
-  private socket: Socket | null = null;
+  private socket: AppSocket | null = null;
   private peerConnection: RTCPeerConnection | null = null;
   private localStream: MediaStream | null = null;
   private remoteStream: MediaStream | null = null;
   private callId: string | null = null;
+  private appointmentId: string | null = null;
+  private peerId: string | null = null;
+  private isCaller = false;
   private callTimeout: NodeJS.Timeout | null = null;
-  private candidateQueue: RTCIceCandidate[] = [];
+  private candidateQueue: RTCIceCandidateInit[] = [];
   private remoteDescSet = false;
   private mediaRecorder: MediaRecorder | null = null;
-  private recordingChunks: Blob[] = [];
-  private readonly MAX_CHUNK_SIZE = 1024 * 1024; // 1MB
   private readonly MAX_RECORDING_SIZE = 100 * 1024 * 1024; // 100MB
   private currentRecordingSize = 0;
-
-  // Event callbacks
-  private onConnectCallback: (() => void) | null = null;
-  private onDisconnectCallback: ((reason: string) => void) | null = null;
-  private onConnectionErrorCallback: ((error: Error) => void) | null = null;
-  private onJoinedCallCallback: ((data: any) => void) | null = null;
-  private onCallRingingCallback: ((data: any) => void) | null = null;
-  private onCallAcceptedCallback: ((data: any) => void) | null = null;
-  private onCallEndedCallback: ((data: any) => void) | null = null;
-  private onCallErrorCallback: ((data: any) => void) | null = null;
-  private onCallRejectedCallback: ((data: any) => void) | null = null;
-  private onCallNotAnsweredCallback: ((data: any) => void) | null = null;
-  private onRecordingStartedCallback: (() => void) | null = null;
-  private onRecordingStoppedCallback: (() => void) | null = null;
-  private onIncomingCallCallback: ((data: any) => void) | null = null;
-  private onCallCancelledCallback: ((data: any) => void) | null = null;
-  private onCallTimeoutCallback: ((data: any) => void) | null = null;
-  private onRemoteStreamCallback: ((stream: MediaStream) => void) | null = null;
-  private onChatMessageCallback: ((message: any) => void) | null = null;
-  private onMessageReceivedCallback: ((message: any) => void) | null = null;
-  private onUserStatusChangeCallback: ((data: any) => void) | null = null;
-  private onUserTypingCallback: ((data: any) => void) | null = null;
-  private onUserStoppedTypingCallback: ((data: any) => void) | null = null;
-
-  private constructor() {}
+  private recordingUploader = new RecordingUploader(() => this.socket);
+  private recordingCompositor: RecordingCompositor | null = null;
+  private isReconnecting = false;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private readonly RECONNECT_GRACE_PERIOD = 20000; // 20 seconds
+  private isLocalHold = false;
+  private isRemoteHold = false;
+  private screenTrack: MediaStreamTrack | null = null;
+  private isVideoSuspended = false;
+
+  // Event listeners, keyed by SocketServiceEvents name
+  private listeners = new Map<
+    keyof SocketServiceEvents,
+    Set<(...args: any[]) => void>
+  >();
+
+  private constructor() {
+    IceConfigService.getInstance().subscribe((configuration) =>
+      this.applyRtcConfiguration(configuration)
+    );
+  }
 
   public static getInstance(): SocketService {
     if (!SocketService.instance) {
@@ -49,8 +72,16 @@ export class SocketService {
     return SocketService.instance;
   }
 
+  // Set by the auth provider; recordings left buffered by one user are never
+  // uploaded in another's session
+  public setCurrentUser(userId: string | null): void {
+    this.recordingUploader.setUser(userId);
+  }
+
   // Connection methods
   public async connect(token: string, baseUrl: string): Promise<void> {
+    IceConfigService.getInstance().setConfig(baseUrl, token);
+
     if (this.socket && this.socket.connected) {
       console.log("Socket already connected");
       return;
@@ -67,20 +98,39 @@ export class SocketService {
         const chatService = ChatService.getInstance();
         chatService.setSocketService(this);
 
-        if (this.onConnectCallback) this.onConnectCallback();
+        this.notify("connect");
+
+        // A new socket isn't in the appointment room yet, which in-call chat
+        // relies on
+        if (this.appointmentId) this.joinCall(this.appointmentId);
+
+        // Rejoin the active call if we reconnected in the middle of one
+        if (this.isReconnecting) this.requestCallReconnect();
+
+        // Pick up recording chunks the server never acknowledged
+        this.recordingUploader.resume();
+
         resolve();
       });
 
       this.socket.on("connect_error", (error) => {
         console.error("Socket connection error:", error);
-        if (this.onConnectionErrorCallback)
-          this.onConnectionErrorCallback(error);
+        this.notify("connectionError", error);
         reject(error);
       });
 
       this.socket.on("disconnect", (reason) => {
         console.log("Socket disconnected:", reason);
-        if (this.onDisconnectCallback) this.onDisconnectCallback(reason);
+        this.notify("disconnect", reason);
+        this.recordingUploader.pause();
+
+        // Keep the call alive through network drops instead of ending it
+        if (this.isCallActive() && reason !== "io client disconnect") {
+          this.beginReconnect();
+
+          // socket.io does not retry on its own after a server-side disconnect
+          if (reason === "io server disconnect") this.socket?.connect();
+        }
       });
 
       // Set up call event handlers
@@ -100,28 +150,43 @@ export class SocketService {
 
     this.socket.on("message", (data) => {
       console.log("Message received:", data);
-      if (this.onMessageReceivedCallback) this.onMessageReceivedCallback(data);
+      // Acknowledge receipt so the sender sees the message as delivered
+      if (data.data?.id && data.data.status === "SENT") {
+        this.updateMessageStatus(data.data.id, "DELIVERED");
+      }
+      this.notify("messageReceived", data);
     });
 
     this.socket.on("userTyping", (data) => {
       console.log("User typing:", data);
-      if (this.onUserTypingCallback) this.onUserTypingCallback(data);
+      this.notify("userTyping", data);
     });
 
     this.socket.on("userStoppedTyping", (data) => {
       console.log("User stopped typing:", data);
-      if (this.onUserStoppedTypingCallback)
-        this.onUserStoppedTypingCallback(data);
+      this.notify("userStoppedTyping", data);
     });
 
     this.socket.on("messageStatusUpdated", (data) => {
       console.log("Message status updated:", data);
+      this.notify("messageStatusUpdated", data);
+    });
+
+    this.socket.on("messageEdited", (data) => {
+      this.notify("messageEdited", data);
+    });
+
+    this.socket.on("messageDeleted", (data) => {
+      this.notify("messageDeleted", data);
+    });
+
+    this.socket.on("messageReaction", (data) => {
+      this.notify("messageReaction", data);
     });
 
     this.socket.on("userStatusChange", (data) => {
       console.log("User status change:", data);
-      if (this.onUserStatusChangeCallback)
-        this.onUserStatusChangeCallback(data);
+      this.notify("userStatusChange", data);
     });
   }
 
@@ -130,22 +195,23 @@ export class SocketService {
 
     this.socket.on("joinedCall", (data) => {
       console.log("Joined call system:", data);
-      if (this.onJoinedCallCallback) this.onJoinedCallCallback(data);
+      this.notify("joinedCall", data);
     });
 
     this.socket.on("joinError", (data) => {
       console.error("Join error:", data);
-      if (this.onCallErrorCallback) this.onCallErrorCallback(data);
+      this.notify("joinError", data);
     });
 
     this.socket.on("callRinging", (data) => {
       console.log("Call ringing:", data);
       this.callId = data.callId;
-      if (this.onCallRingingCallback) this.onCallRingingCallback(data);
+      this.notify("callRinging", data);
     });
 
     this.socket.on("callAccepted", async (data) => {
       console.log("Call accepted:", data);
+      this.peerId = data.receiver;
       if (this.peerConnection) {
         try {
           await this.peerConnection.setRemoteDescription(
@@ -153,7 +219,7 @@ export class SocketService {
           );
           this.remoteDescSet = true;
           this.flushCandidates();
-          if (this.onCallAcceptedCallback) this.onCallAcceptedCallback(data);
+          this.notify("callAccepted", data);
         } catch (error) {
           console.error("Error handling call accepted:", error);
         }
@@ -162,22 +228,22 @@ export class SocketService {
 
     this.socket.on("callEnded", (data) => {
       console.log("Call ended:", data);
-      if (this.onCallEndedCallback) this.onCallEndedCallback(data);
+      this.notify("callEnded", data);
     });
 
     this.socket.on("callError", (data) => {
       console.error("Call error:", data);
-      if (this.onCallErrorCallback) this.onCallErrorCallback(data);
+      this.notify("callError", data);
     });
 
     this.socket.on("callRejected", (data) => {
       console.log("Call rejected:", data);
-      if (this.onCallRejectedCallback) this.onCallRejectedCallback(data);
+      this.notify("callRejected", data);
     });
 
     this.socket.on("callNotAnswered", (data) => {
       console.log("Call not answered:", data);
-      if (this.onCallNotAnsweredCallback) this.onCallNotAnsweredCallback(data);
+      this.notify("callNotAnswered", data);
     });
 
     this.socket.on("iceCandidate", async (data) => {
@@ -195,14 +261,88 @@ export class SocketService {
       }
     });
 
+    this.socket.on("reconnectSuccess", async (data) => {
+      console.log("Call reconnected:", data);
+      this.peerId = data.otherPartyId;
+
+      // The caller always drives the ICE restart so both sides never offer at once
+      if (this.isCaller) await this.restartIce();
+
+      const iceState = this.peerConnection?.iceConnectionState;
+      if (iceState === "connected" || iceState === "completed") {
+        this.completeReconnect();
+      }
+    });
+
+    this.socket.on("reconnectError", (data) => {
+      console.error("Reconnect error:", data);
+      this.failReconnect(data);
+    });
+
+    this.socket.on("peerReconnecting", async (data) => {
+      console.log("Peer reconnecting:", data);
+      this.notify("peerReconnecting", data);
+      if (this.isCaller) await this.restartIce();
+    });
+
+    this.socket.on("renegotiate", async (data) => {
+      if (!this.peerConnection) return;
+
+      try {
+        console.log("Received renegotiation:", data.description.type);
+        await this.peerConnection.setRemoteDescription(
+          new RTCSessionDescription(data.description)
+        );
+
+        if (data.description.type === "offer") {
+          const answer = await this.peerConnection.createAnswer();
+          await this.peerConnection.setLocalDescription(answer);
+          this.socket?.emit("renegotiate", {
+            callId: data.callId,
+            to: data.from,
+            description: answer,
+          });
+        }
+      } catch (error) {
+        console.error("Error handling renegotiation:", error);
+      }
+    });
+
+    this.socket.on("hold", (data) => {
+      if (data.callId !== this.callId) return;
+      this.isRemoteHold = true;
+      this.notify("remoteHold", data);
+    });
+
+    this.socket.on("resume", (data) => {
+      if (data.callId !== this.callId) return;
+      this.isRemoteHold = false;
+      this.notify("remoteResume", data);
+    });
+
+    this.socket.on("screenShare", (data) => {
+      if (data.callId !== this.callId) return;
+      this.notify("remoteScreenShare", data);
+    });
+
+    this.socket.on("videoFallback", (data) => {
+      if (data.callId !== this.callId) return;
+      this.notify("remoteVideoFallback", data);
+    });
+
     this.socket.on("recordingStarted", () => {
       console.log("Recording started");
-      if (this.onRecordingStartedCallback) this.onRecordingStartedCallback();
+      this.notify("recordingStarted");
     });
 
     this.socket.on("recordingStopped", () => {
       console.log("Recording stopped");
-      if (this.onRecordingStoppedCallback) this.onRecordingStoppedCallback();
+      this.notify("recordingStopped");
+    });
+
+    this.socket.on("recordingConsent", (data) => {
+      if (data.callId !== this.callId) return;
+      this.notify("remoteRecordingConsent", data);
     });
 
     this.socket.on("incomingCall", (data) => {
@@ -213,29 +353,41 @@ export class SocketService {
         appointmentId: data.appointmentId,
         isDoctorCall: data.isDoctorCall,
       });
-      if (this.onIncomingCallCallback) this.onIncomingCallCallback(data);
+      this.notify("incomingCall", data);
     });
 
     this.socket.on("callCancelled", (data) => {
       console.log("Call cancelled:", data);
-      if (this.onCallCancelledCallback) this.onCallCancelledCallback(data);
+      this.notify("callCancelled", data);
+    });
+
+    this.socket.on("callCanceled", (data) => {
+      console.log("Call cancelled:", data);
+      this.notify("callCancelled", data);
+    });
+
+    this.socket.on("missedCall", (data) => {
+      console.log("Missed call:", data);
+      this.notify("missedCall", data);
     });
 
     this.socket.on("chatMessage", (data) => {
       console.log("Chat message received:", data);
-      if (this.onChatMessageCallback) this.onChatMessageCallback(data);
+      this.notify("chatMessage", data);
+    });
+
+    this.socket.on("chatReaction", (data) => {
+      this.notify("chatReaction", data);
     });
 
     // Add new recording event handlers
     this.socket.on("chunkReceived", (data) => {
-      console.log("Recording chunk received by server:", data);
+      this.recordingUploader.handleAck(data);
     });
 
     this.socket.on("recordingError", (error) => {
       console.error("Recording error:", error);
-      if (this.onCallErrorCallback) {
-        this.onCallErrorCallback(error);
-      }
+      this.notify("callError", error);
     });
   }
 
@@ -256,6 +408,10 @@ export class SocketService {
     }
 
     try {
+      this.appointmentId = appointmentId;
+      this.peerId = receiverId;
+      this.isCaller = true;
+
       console.log(
         `Creating offer for ${receiverId} (${
           isVideoCall ? "video" : "audio"
@@ -308,6 +464,9 @@ export class SocketService {
 
     try {
       this.callId = callId;
+      this.appointmentId = appointmentId;
+      this.peerId = callerId;
+      this.isCaller = false;
 
       // Set the remote description from the offer
       await this.peerConnection.setRemoteDescription(
@@ -348,16 +507,20 @@ export class SocketService {
   }
 
   // Media methods
-  public async setupLocalMedia(isVideoCall: boolean): Promise<MediaStream> {
+  public async setupLocalMedia(
+    isVideoCall: boolean,
+    devices: MediaDevicePreferences = {}
+  ): Promise<MediaStream> {
     try {
-      const constraints = isVideoCall
-        ? { video: true, audio: true }
-        : { audio: true };
+      const constraints = {
+        audio: deviceConstraint(devices.microphoneId),
+        video: isVideoCall ? deviceConstraint(devices.cameraId) : false,
+      };
       const stream = await navigator.mediaDevices.getUserMedia(constraints);
       this.localStream = stream;
 
       // Create peer connection
-      this.createPeerConnection();
+      await this.createPeerConnection();
 
       return stream;
     } catch (error) {
@@ -366,11 +529,35 @@ export class SocketService {
     }
   }
 
-  private createPeerConnection(): void {
+  public async getStats(): Promise<RTCStatsReport | null> {
+    return this.peerConnection ? this.peerConnection.getStats() : null;
+  }
+
+  // Peer connection settings shared by calls and the pre-call network check
+  public getRtcConfiguration(): Promise<RTCConfiguration> {
+    return IceConfigService.getInstance().getConfiguration();
+  }
+
+  // Hands refreshed TURN credentials or a new transport policy to the live
+  // call. A policy change needs new candidates, hence the ICE restart.
+  private applyRtcConfiguration(configuration: RTCConfiguration): void {
+    if (!this.peerConnection) return;
+
     try {
-      const pc = new RTCPeerConnection({
-        iceServers: [{ urls: "stun:stun.l.google.com:19302" }],
-      });
+      const policyChanged =
+        this.peerConnection.getConfiguration().iceTransportPolicy !==
+        configuration.iceTransportPolicy;
+      this.peerConnection.setConfiguration(configuration);
+
+      if (policyChanged && this.isCallActive()) this.restartIce();
+    } catch (error) {
+      console.error("Error updating ICE configuration:", error);
+    }
+  }
+
+  private async createPeerConnection(): Promise<void> {
+    try {
+      const pc = new RTCPeerConnection(await this.getRtcConfiguration());
 
       if (this.localStream) {
         this.localStream.getTracks().forEach((track) => {
@@ -381,11 +568,11 @@ export class SocketService {
       }
 
       pc.onicecandidate = (event) => {
-        if (event.candidate && this.socket && this.callId) {
+        if (event.candidate && this.socket && this.callId && this.peerId) {
           this.socket.emit("iceCandidate", {
             callId: this.callId,
             candidate: event.candidate,
-            to: this.callId.split("-")[0], // This assumes the callId format includes the receiver ID
+            to: this.peerId,
           });
         }
       };
@@ -398,13 +585,23 @@ export class SocketService {
           track.enabled = true;
         });
 
-        if (this.onRemoteStreamCallback) {
-          this.onRemoteStreamCallback(event.streams[0]);
-        }
+        this.notify("remoteStream", event.streams[0]);
       };
 
       pc.oniceconnectionstatechange = () => {
         console.log("ICE connection state:", pc.iceConnectionState);
+        this.notify("iceConnectionStateChange", pc.iceConnectionState);
+
+        switch (pc.iceConnectionState) {
+          case "disconnected":
+          case "failed":
+            if (this.isCallActive()) this.beginReconnect();
+            break;
+          case "connected":
+          case "completed":
+            if (this.isReconnecting) this.completeReconnect();
+            break;
+        }
       };
 
       this.peerConnection = pc;
@@ -424,6 +621,85 @@ export class SocketService {
     this.candidateQueue = [];
   }
 
+  // Reconnection methods
+  private isCallActive(): boolean {
+    return !!this.callId && !!this.peerConnection && this.remoteDescSet;
+  }
+
+  private beginReconnect(): void {
+    if (this.isReconnecting) return;
+
+    console.log("Connection lost, attempting to reconnect call:", this.callId);
+    this.isReconnecting = true;
+    this.notify("reconnecting");
+
+    this.reconnectTimeout = setTimeout(() => {
+      this.failReconnect({ message: "Unable to restore the call connection" });
+    }, this.RECONNECT_GRACE_PERIOD);
+
+    if (this.socket?.connected) this.requestCallReconnect();
+  }
+
+  private requestCallReconnect(): void {
+    if (!this.socket || !this.callId || !this.appointmentId) return;
+
+    this.socket.emit("reconnectCall", {
+      callId: this.callId,
+      appointmentId: this.appointmentId,
+    });
+  }
+
+  private async restartIce(): Promise<void> {
+    try {
+      await this.renegotiate({ iceRestart: true });
+    } catch (error) {
+      console.error("Error restarting ICE:", error);
+    }
+  }
+
+  // Sends a fresh offer over the existing call, e.g. for an ICE restart or
+  // after changing transceiver directions
+  private async renegotiate(options?: RTCOfferOptions): Promise<void> {
+    if (!this.socket || !this.peerConnection || !this.callId || !this.peerId) {
+      return;
+    }
+
+    const offer = await this.peerConnection.createOffer(options);
+    await this.peerConnection.setLocalDescription(offer);
+
+    this.socket.emit("renegotiate", {
+      callId: this.callId,
+      to: this.peerId,
+      description: offer,
+    });
+  }
+
+  private completeReconnect(): void {
+    this.clearReconnectTimeout();
+    this.isReconnecting = false;
+    console.log("Call connection restored");
+    this.notify("reconnected");
+  }
+
+  private failReconnect(data: ErrorPayload): void {
+    if (!this.isReconnecting) return;
+
+    this.clearReconnectTimeout();
+    this.isReconnecting = false;
+    // Tell the gateway too, so the peer's side ends now rather than when the
+    // gateway's own grace period runs out. socket.io sends it once the socket
+    // is back if it's still down.
+    if (this.appointmentId) this.endCall(this.appointmentId);
+    this.notify("reconnectFailed", data);
+  }
+
+  private clearReconnectTimeout(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+  }
+
   // Media control methods
   public toggleAudio(): void {
     if (!this.localStream) return;
@@ -434,40 +710,217 @@ export class SocketService {
     });
   }
 
-  // This is the main issue - when toggling hold, we're disabling ALL tracks
-  public toggleHold(): void {
+  public toggleVideo(): void {
     if (!this.localStream) return;
 
-    const tracks = this.localStream.getTracks();
-    const isOnHold = tracks[0]?.enabled === false;
+    const videoTracks = this.localStream.getVideoTracks();
+    videoTracks.forEach((track) => {
+      track.enabled = !track.enabled;
+    });
+  }
 
-    tracks.forEach((track) => {
-      track.enabled = isOnHold;
+  // Swaps the local track of one kind for a track from another device. The
+  // new track goes out on the existing sender, so no renegotiation is needed.
+  public async replaceLocalTrack(
+    kind: "audio" | "video",
+    deviceId?: string
+  ): Promise<MediaStreamTrack | null> {
+    if (!this.localStream) return null;
+
+    const [currentTrack] =
+      kind === "audio"
+        ? this.localStream.getAudioTracks()
+        : this.localStream.getVideoTracks();
+    // Audio-only calls have no camera track to replace
+    if (!currentTrack) return null;
+
+    const stream = await navigator.mediaDevices.getUserMedia({
+      [kind]: deviceId ? { deviceId: { exact: deviceId } } : true,
     });
+    const [newTrack] = stream.getTracks();
+    // Keep the muted / camera-off / held state across the switch
+    newTrack.enabled = currentTrack.enabled;
+
+    const sender = this.peerConnection
+      ?.getSenders()
+      .find((sender) => sender.track?.kind === kind);
+    // While held nothing is sent; setHold(false) picks up the new track.
+    // A running screen share keeps the video sender until it stops.
+    const isSharingScreen = kind === "video" && !!this.screenTrack;
+    const isSuspended = kind === "video" && this.isVideoSuspended;
+    if (sender && !this.isLocalHold && !isSharingScreen && !isSuspended) {
+      await sender.replaceTrack(newTrack);
+    }
+
+    this.localStream.removeTrack(currentTrack);
+    currentTrack.stop();
+    this.localStream.addTrack(newTrack);
+    this.recordingCompositor?.replaceLocalTrack(newTrack);
+
+    return newTrack;
+  }
+
+  // Puts the call on hold (or resumes it) for both sides: the peer is told
+  // via a hold/resume event and the media directions are renegotiated, so the
+  // held side stops receiving and nothing but silence is sent.
+  public async setHold(onHold: boolean): Promise<void> {
+    if (!this.socket || !this.peerConnection || !this.callId || !this.peerId) {
+      return;
+    }
+
+    this.isLocalHold = onHold;
+    this.socket.emit(onHold ? "hold" : "resume", {
+      callId: this.callId,
+      to: this.peerId,
+    });
+
+    const direction: RTCRtpTransceiverDirection = !onHold
+      ? "sendrecv"
+      : this.isRemoteHold
+        ? "inactive"
+        : "sendonly";
+
+    for (const transceiver of this.peerConnection.getTransceivers()) {
+      if (transceiver.currentDirection === "stopped") continue;
+      transceiver.direction = direction;
+
+      // Stop sending local media while held, keeping mute state untouched
+      const kind = transceiver.receiver.track.kind;
+      await transceiver.sender.replaceTrack(
+        onHold ? null : this.getOutgoingTrack(kind)
+      );
+    }
+
+    await this.renegotiate();
+  }
+
+  // Sends a screen/window/tab capture in place of the camera. Reuses the
+  // existing video sender, so only video calls can share their screen.
+  public async startScreenShare(): Promise<MediaStream> {
+    const sender = this.getVideoSender();
+    if (!this.socket || !this.callId || !this.peerId || !sender) {
+      throw new Error("Screen sharing needs an active video call");
+    }
+
+    const screenStream = await navigator.mediaDevices.getDisplayMedia({
+      video: true,
+    });
+    const [screenTrack] = screenStream.getVideoTracks();
+    this.screenTrack = screenTrack;
+
+    // Fired when the user stops sharing from the browser's own controls
+    screenTrack.onended = () => {
+      this.stopScreenShare().finally(() => this.notify("screenShareEnded"));
+    };
+
+    if (!this.isLocalHold && !this.isVideoSuspended) {
+      await sender.replaceTrack(screenTrack);
+    }
+    this.socket.emit("screenShare", {
+      callId: this.callId,
+      to: this.peerId,
+      active: true,
+    });
+
+    return screenStream;
+  }
+
+  public async stopScreenShare(): Promise<void> {
+    if (!this.screenTrack) return;
+
+    this.screenTrack.onended = null;
+    this.screenTrack.stop();
+    this.screenTrack = null;
+
+    // Put the camera back on the wire
+    const sender = this.getVideoSender();
+    if (sender && !this.isLocalHold) {
+      await sender.replaceTrack(this.getOutgoingTrack("video"));
+    }
+
+    if (this.socket && this.callId && this.peerId) {
+      this.socket.emit("screenShare", {
+        callId: this.callId,
+        to: this.peerId,
+        active: false,
+      });
+    }
+  }
+
+  // Caps what the video sender puts on the wire. Encoder limits apply
+  // immediately through setParameters, without renegotiating.
+  public async setVideoEncoding(encoding: {
+    maxBitrate?: number;
+    maxFramerate?: number;
+    scaleResolutionDownBy?: number;
+  }): Promise<void> {
+    const sender = this.getVideoSender();
+    if (!sender) return;
+
+    const parameters = sender.getParameters();
+    // Not populated until the first negotiation completes
+    if (!parameters.encodings?.length) return;
+
+    parameters.encodings = parameters.encodings.map((current) => ({
+      ...current,
+      ...encoding,
+    }));
+    await sender.setParameters(parameters);
+  }
+
+  // Stops (or restarts) sending video when the connection can only sustain
+  // audio, and lets the peer know why the picture went away
+  public async setVideoSuspended(suspended: boolean): Promise<void> {
+    if (this.isVideoSuspended === suspended) return;
+
+    this.isVideoSuspended = suspended;
+    const sender = this.getVideoSender();
+    if (sender && !this.isLocalHold) {
+      await sender.replaceTrack(this.getOutgoingTrack("video"));
+    }
+
+    if (this.socket && this.callId && this.peerId) {
+      this.socket.emit("videoFallback", {
+        callId: this.callId,
+        to: this.peerId,
+        suspended,
+      });
+    }
+  }
+
+  private getVideoSender(): RTCRtpSender | undefined {
+    return this.peerConnection
+      ?.getTransceivers()
+      .find((transceiver) => transceiver.receiver.track.kind === "video")
+      ?.sender;
+  }
+
+  // The track that should currently be sent for a media kind
+  private getOutgoingTrack(kind: string): MediaStreamTrack | null {
+    if (kind === "video" && this.isVideoSuspended) return null;
+    if (kind === "video" && this.screenTrack) return this.screenTrack;
+    return (
+      this.localStream?.getTracks().find((track) => track.kind === kind) ??
+      null
+    );
   }
 
   // Chat methods
-  public sendChatMessage(
-    appointmentId: string,
-    message: string,
-    audioUrl?: string,
-    imageUrl?: string,
-    videoUrl?: string
-  ): void {
+  public sendChatMessage(message: Omit<CallChatMessage, "senderId">): void {
     if (!this.socket) return;
 
-    this.socket.emit("chatMessage", {
-      appointmentId,
-      message,
-      audioUrl,
-      imageUrl,
-      videoUrl,
-      timestamp: new Date().toISOString(),
-    });
+    this.socket.emit("chatMessage", message);
+  }
+
+  public sendChatReaction(
+    reaction: Omit<CallChatReactionPayload, "userId">
+  ): void {
+    if (!this.socket) return;
+    this.socket.emit("chatReaction", reaction);
   }
 
   // Chat methods for direct messaging
-  public sendMessage(to: string, data: any): void {
+  public sendMessage(to: string, data: SocketChatMessage): void {
     if (!this.socket) {
       console.warn("Socket not connected, can't send message");
       return;
@@ -477,79 +930,126 @@ export class SocketService {
     this.socket.emit("sendMessage", { to, data });
   }
 
-  public sendTypingStatus(to: string, data: any): void {
+  public sendMessageEdited(to: string, data: MessageEditedPayload): void {
+    if (!this.socket) return;
+    this.socket.emit("editMessage", { to, data });
+  }
+
+  public sendMessageDeleted(to: string, data: MessageDeletedPayload): void {
+    if (!this.socket) return;
+    this.socket.emit("deleteMessage", { to, data });
+  }
+
+  public sendMessageReaction(to: string, data: MessageReactionPayload): void {
+    if (!this.socket) return;
+    this.socket.emit("reactMessage", { to, data });
+  }
+
+  public updateMessageStatus(messageId: string, status: MessageStatus): void {
+    if (!this.socket) return;
+    this.socket.emit("updateMessageStatus", { message_id: messageId, status });
+  }
+
+  public sendTypingStatus(to: string, data: TypingData): void {
     if (!this.socket) return;
     this.socket.emit("typing", { to, data });
   }
 
-  public stopTypingStatus(to: string, data: any): void {
+  public stopTypingStatus(to: string, data: TypingData): void {
     if (!this.socket) return;
     this.socket.emit("stopTyping", { to, data });
   }
 
   // Recording methods
-  public startRecording(appointmentId: string): void {
+  public sendRecordingConsent(action: RecordingConsentAction): void {
+    if (!this.socket || !this.callId || !this.peerId || !this.appointmentId) {
+      return;
+    }
+    this.socket.emit("recordingConsent", {
+      callId: this.callId,
+      to: this.peerId,
+      appointmentId: this.appointmentId,
+      action,
+    });
+  }
+
+  // Records both sides of the call; audio calls record audio only
+  public startRecording(
+    appointmentId: string,
+    layout: RecordingLayout = "side-by-side"
+  ): void {
     if (!this.socket || !this.localStream) return;
 
     try {
+      const isVideo = this.localStream.getVideoTracks().length > 0;
+      this.recordingCompositor?.stop();
+      const compositor = new RecordingCompositor(
+        this.localStream,
+        this.remoteStream,
+        isVideo,
+        layout
+      );
+      this.recordingCompositor = compositor;
+
       // Initialize MediaRecorder with appropriate settings
-      this.mediaRecorder = new MediaRecorder(this.localStream, {
-        mimeType: "video/webm",
-        videoBitsPerSecond: 2500000, // 2.5 Mbps
+      const mimeType = pickRecordingMimeType(isVideo);
+      const mediaRecorder = new MediaRecorder(compositor.stream, {
+        mimeType,
+        audioBitsPerSecond: 128000,
+        ...(isVideo && { videoBitsPerSecond: 2500000 }), // 2.5 Mbps
       });
+      this.mediaRecorder = mediaRecorder;
 
-      this.recordingChunks = [];
+      const recordingId = crypto.randomUUID();
+      this.recordingUploader.begin({
+        recordingId,
+        appointmentId,
+        callId: this.callId,
+        mimeType,
+      });
       this.currentRecordingSize = 0;
 
-      // Handle data available event
-      this.mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          // Check size limits
-          if (
-            this.currentRecordingSize + event.data.size >
-            this.MAX_RECORDING_SIZE
-          ) {
-            this.stopRecording(appointmentId);
-            if (this.onCallErrorCallback) {
-              this.onCallErrorCallback({
-                message: "Recording size limit exceeded",
-              });
-            }
-            return;
-          }
+      // Chunks are buffered locally and uploaded as the server acks them
+      mediaRecorder.ondataavailable = (event) => {
+        if (event.data.size === 0) return;
+
+        // Check size limits
+        if (
+          this.currentRecordingSize + event.data.size >
+          this.MAX_RECORDING_SIZE
+        ) {
+          this.stopRecording(appointmentId);
+          this.notify("callError", {
+            message: "Recording size limit exceeded",
+          });
+          return;
+        }
 
-          // Convert blob to base64
-          const reader = new FileReader();
-          reader.onloadend = () => {
-            const base64data = reader.result as string;
-            // Remove the data URL prefix
-            const base64Chunk = base64data.split(",")[1];
-
-            // Send chunk to server
-            this.socket?.emit("recordingChunk", {
-              appointmentId,
-              callId: this.callId,
-              chunk: base64Chunk,
-            });
-
-            this.currentRecordingSize += event.data.size;
-          };
-          reader.readAsDataURL(event.data);
+        this.currentRecordingSize += event.data.size;
+        this.recordingUploader.enqueue(event.data).catch((error) => {
+          console.error("Error buffering recording chunk:", error);
+        });
+      };
+
+      // The last chunk arrives just before onstop
+      mediaRecorder.onstop = () => {
+        this.recordingUploader.finish();
+        compositor.stop();
+        if (this.recordingCompositor === compositor) {
+          this.recordingCompositor = null;
         }
       };
 
       // Start recording
-      this.mediaRecorder.start(1000); // Send chunks every second
+      mediaRecorder.start(1000); // Send chunks every second
 
       // Notify server
-      this.socket.emit("startRecording", { appointmentId });
+      this.socket.emit("startRecording", { appointmentId, recordingId });
     } catch (error) {
       console.error("Error starting recording:", error);
-      if (this.onCallErrorCallback) {
-        this.onCallErrorCallback({
-          message: "Failed to start recording",
-        });
-      }
+      this.recordingCompositor?.stop();
+      this.recordingCompositor = null;
+      this.notify("callError", { message: "Failed to start recording" });
     }
   }
 
@@ -557,20 +1057,16 @@ export class SocketService {
     if (!this.socket) return;
 
     try {
+      // Stopping flushes the final chunk, then notifies the server via onstop
       if (this.mediaRecorder && this.mediaRecorder.state !== "inactive") {
         this.mediaRecorder.stop();
-        this.mediaRecorder = null;
+      } else {
+        this.recordingUploader.finish();
       }
-
-      // Notify server
-      this.socket.emit("stopRecording", { appointmentId });
+      this.mediaRecorder = null;
     } catch (error) {
       console.error("Error stopping recording:", error);
-      if (this.onCallErrorCallback) {
-        this.onCallErrorCallback({
-          message: "Failed to stop recording",
-        });
-      }
+      this.notify("callError", { message: "Failed to stop recording" });
     }
   }
 
@@ -597,6 +1093,12 @@ export class SocketService {
     }
 
     // Stop all tracks
+    if (this.screenTrack) {
+      this.screenTrack.onended = null;
+      this.screenTrack.stop();
+      this.screenTrack = null;
+    }
+
     if (this.localStream) {
       this.localStream.getTracks().forEach((track) => track.stop());
       this.localStream = null;
@@ -605,7 +1107,15 @@ export class SocketService {
     // Reset state
     this.remoteStream = null;
     this.callId = null;
+    this.appointmentId = null;
+    this.peerId = null;
+    this.isCaller = false;
     this.remoteDescSet = false;
+    this.clearReconnectTimeout();
+    this.isReconnecting = false;
+    this.isLocalHold = false;
+    this.isRemoteHold = false;
+    this.isVideoSuspended = false;
     this.candidateQueue = [];
 
     // Clean up recording
@@ -613,108 +1123,54 @@ export class SocketService {
       this.mediaRecorder.stop();
       this.mediaRecorder = null;
     }
-    this.recordingChunks = [];
     this.currentRecordingSize = 0;
 
     // Don't disconnect the socket here as it might be used by other components
   }
 
-  // Event registration methods
-  public onConnect(callback: () => void): void {
-    this.onConnectCallback = callback;
-  }
-
-  public onDisconnect(callback: (reason: string) => void): void {
-    this.onDisconnectCallback = callback;
-  }
-
-  public onConnectionError(callback: (error: Error) => void): void {
-    this.onConnectionErrorCallback = callback;
-  }
-
-  public onJoinedCall(callback: (data: any) => void): void {
-    this.onJoinedCallCallback = callback;
-  }
-
-  public onCallRinging(callback: (data: any) => void): void {
-    this.onCallRingingCallback = callback;
-  }
-
-  public onCallAccepted(callback: (data: any) => void): void {
-    this.onCallAcceptedCallback = callback;
-  }
-
-  public onCallEnded(callback: (data: any) => void): void {
-    this.onCallEndedCallback = callback;
-  }
-
-  public onCallError(callback: (data: any) => void): void {
-    this.onCallErrorCallback = callback;
-  }
-
-  public onCallRejected(callback: (data: any) => void): void {
-    this.onCallRejectedCallback = callback;
-  }
-
-  public onCallNotAnswered(callback: (data: any) => void): void {
-    this.onCallNotAnsweredCallback = callback;
-  }
-
-  public onRecordingStarted(callback: () => void): void {
-    this.onRecordingStartedCallback = callback;
-  }
-
-  public onRecordingStopped(callback: () => void): void {
-    this.onRecordingStoppedCallback = callback;
-  }
-
-  public onIncomingCall(callback: (data: any) => void): void {
-    this.onIncomingCallCallback = callback;
-  }
-
-  public onCallCancelled(callback: (data: any) => void): void {
-    this.onCallCancelledCallback = callback;
-  }
-
-  public onCallTimeout(callback: (data: any) => void): void {
-    this.onCallTimeoutCallback = callback;
-  }
-
-  public onRemoteStream(callback: (stream: MediaStream) => void): void {
-    this.onRemoteStreamCallback = callback;
-  }
-
-  public onChatMessage(callback: (message: any) => void): void {
-    this.onChatMessageCallback = callback;
-  }
-
-  public onMessageReceived(callback: ((message: any) => void) | null): void {
-    this.onMessageReceivedCallback = callback;
-  }
-
-  public onUserStatusChange(callback: ((data: any) => void) | null): void {
-    this.onUserStatusChangeCallback = callback;
-  }
+  // Event subscription methods
+  public subscribe<K extends keyof SocketServiceEvents>(
+    event: K,
+    listener: SocketServiceEvents[K]
+  ): () => void {
+    let eventListeners = this.listeners.get(event);
+    if (!eventListeners) {
+      eventListeners = new Set();
+      this.listeners.set(event, eventListeners);
+    }
+    eventListeners.add(listener);
 
-  public onUserTyping(callback: ((data: any) => void) | null): void {
-    this.onUserTypingCallback = callback;
+    return () => {
+      eventListeners.delete(listener);
+    };
   }
 
-  public onUserStoppedTyping(callback: ((data: any) => void) | null): void {
-    this.onUserStoppedTypingCallback = callback;
+  private notify<K extends keyof SocketServiceEvents>(
+    event: K,
+    ...args: Parameters<SocketServiceEvents[K]>
+  ): void {
+    // Copy first so listeners can unsubscribe while being notified
+    const eventListeners = [...(this.listeners.get(event) ?? [])];
+    eventListeners.forEach((listener) => {
+      try {
+        listener(...args);
+      } catch (error) {
+        console.error(`Error in ${event} listener:`, error);
+      }
+    });
   }
 
   public getSocketId(): string | null {
     return this.socket?.id || null;
   }
 
-  public getSocket(): Socket | null {
+  public getSocket(): AppSocket | null {
     return this.socket;
   }
 
-  public setupTypingListeners(dispatch: any) {
-    if (!this.socket) return;
-    this.socket.on("userTyping", (data: any) => {
+  // Mirrors typing indicators into the chat slice; returns an unsubscribe
+  public setupTypingListeners(dispatch: Dispatch): () => void {
+    const unsubscribeTyping = this.subscribe("userTyping", (data) => {
       dispatch({
         type: "chat/setUserTyping",
         payload: {
@@ -728,14 +1184,22 @@ export class SocketService {
         },
       });
     });
-    this.socket.on("userStoppedTyping", (data: any) => {
-      dispatch({
-        type: "chat/setUserTyping",
-        payload: {
-          conversationId: data.data.conversationId,
-          user: null,
-        },
-      });
-    });
+    const unsubscribeStoppedTyping = this.subscribe(
+      "userStoppedTyping",
+      (data) => {
+        dispatch({
+          type: "chat/setUserTyping",
+          payload: {
+            conversationId: data.data.conversationId,
+            user: null,
+          },
+        });
+      }
+    );
+
+    return () => {
+      unsubscribeTyping();
+      unsubscribeStoppedTyping();
+    };
   }
 }
@@ -0,0 +1,106 @@
+import { createSlice, type PayloadAction } from "@reduxjs/toolkit"
+import type { CallQualityReport } from "@/service/call.stats"
+
+// Per user, so a shared browser doesn't show one user's calls to the next
+export const callHistoryStorageKey = (userId: string) => `callHistory:${userId}`
+const MAX_ENTRIES = 100
+
+export type CallHistoryStatus = "missed" | "rejected" | "not-answered" | "completed"
+
+export interface CallHistoryEntry {
+  id: string
+  status: CallHistoryStatus
+  direction: "incoming" | "outgoing"
+  peerId: string
+  appointmentId: string
+  isVideoCall: boolean
+  timestamp: string
+  // Duration in seconds, only set for completed calls
+  duration?: number
+  // Post-call summary of the connection stats, only set for completed calls
+  qualityReport?: CallQualityReport
+}
+
+interface StoredCallHistory {
+  entries: CallHistoryEntry[]
+  unseenMissedCount: number
+}
+
+interface CallHistoryState extends StoredCallHistory {
+  // Whose history this is, and so where it's saved
+  userId: string | null
+  isHydrated: boolean
+}
+
+const initialState: CallHistoryState = {
+  entries: [],
+  unseenMissedCount: 0,
+  userId: null,
+  isHydrated: false,
+}
+
+export const loadStoredCallHistory = (userId: string): StoredCallHistory | null => {
+  try {
+    const stored = localStorage.getItem(callHistoryStorageKey(userId))
+    return stored ? (JSON.parse(stored) as StoredCallHistory) : null
+  } catch (error) {
+    console.error("Error reading stored call history:", error)
+    return null
+  }
+}
+
+const callHistorySlice = createSlice({
+  name: "callHistory",
+  initialState,
+  reducers: {
+    // Merges persisted history with anything recorded before hydration ran
+    hydrateCallHistory: (
+      state,
+      action: PayloadAction<{ userId: string; history: StoredCallHistory | null }>,
+    ) => {
+      const { userId, history } = action.payload
+      if (history) {
+        const knownIds = new Set(state.entries.map((entry) => entry.id))
+        const storedEntries = history.entries.filter((entry) => !knownIds.has(entry.id))
+        state.entries = [...state.entries, ...storedEntries].slice(0, MAX_ENTRIES)
+        state.unseenMissedCount += history.unseenMissedCount
+      }
+      state.userId = userId
+      state.isHydrated = true
+    },
+    addCallHistoryEntry: {
+      reducer: (state, action: PayloadAction<CallHistoryEntry>) => {
+        state.entries.unshift(action.payload)
+        state.entries = state.entries.slice(0, MAX_ENTRIES)
+        if (action.payload.status === "missed") {
+          state.unseenMissedCount += 1
+        }
+      },
+      prepare: (entry: Omit<CallHistoryEntry, "id" | "timestamp">) => ({
+        payload: {
+          ...entry,
+          id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          timestamp: new Date().toISOString(),
+        },
+      }),
+    },
+    markMissedCallsSeen: (state) => {
+      state.unseenMissedCount = 0
+    },
+    clearCallHistory: (state) => {
+      state.entries = []
+      state.unseenMissedCount = 0
+    },
+    // On sign-out: forgets the history in memory but keeps the stored copy
+    resetCallHistory: () => initialState,
+  },
+})
+
+export const {
+  hydrateCallHistory,
+  addCallHistoryEntry,
+  markMissedCallsSeen,
+  clearCallHistory,
+  resetCallHistory,
+} = callHistorySlice.actions
+export default callHistorySlice.reducer
@@ -6,9 +6,27 @@ import {
 import {
   ChatService,
   type Conversation,
+  type DeleteScope,
   type Message,
+  type User,
 } from "@/service/chat.service";
 import { SocketService } from "@/service/socket.service";
+import type {
+  MessageDeletedPayload,
+  MessageEditedPayload,
+  MessageReactionPayload,
+  SocketChatMessage,
+} from "@/service/socket.protocol";
+import type { MessageAttachment } from "@/service/chat.attachments";
+import { applyReaction, hasReacted } from "@/service/chat.reactions";
+import { ChatOutbox, toPendingMessage } from "@/service/chat.outbox";
+
+// Statuses only ever move forward: SENT -> DELIVERED -> READ
+const STATUS_RANK: Record<Message["status"], number> = {
+  SENT: 0,
+  DELIVERED: 1,
+  READ: 2,
+};
 
 interface TypingUserProfile {
   userId: string;
@@ -17,10 +35,20 @@ interface TypingUserProfile {
   email: string;
 }
 
+// The part of a conversation's history loaded so far, oldest first
+interface ConversationMessages {
+  messages: Message[];
+  // Whether the server has older messages than the first one here
+  hasMore: boolean;
+  isLoadingOlder: boolean;
+}
+
 interface ChatState {
+  // Whose chat this is. Only their outbox entries are shown or sent.
+  currentUserId: string | null;
   conversations: Conversation[];
   activeConversation: Conversation | null;
-  messages: Message[];
+  messagesByConversation: Record<string, ConversationMessages>;
   isLoading: boolean;
   isSending: boolean;
   error: string | null;
@@ -30,9 +58,10 @@ interface ChatState {
 }
 
 const initialState: ChatState = {
+  currentUserId: null,
   conversations: [],
   activeConversation: null,
-  messages: [],
+  messagesByConversation: {},
   isLoading: false,
   isSending: false,
   error: null,
@@ -67,12 +96,8 @@ export const initializeChat = createAsyncThunk(
       const socketService = SocketService.getInstance();
       await socketService.connect(token, baseUrl);
 
-      // Set up socket event handlers for real-time messaging
-      socketService.onMessageReceived((data) => {
-        // Handle incoming messages
-        console.log("Message received in Redux:", data);
-        // We'll handle this in the component
-      });
+      // Incoming messages are handled by the components that subscribe to
+      // the socket service's "messageReceived" event
 
       return true;
     } catch (error) {
@@ -113,7 +138,10 @@ export const fetchConversations = createAsyncThunk(
 
 export const fetchMessages = createAsyncThunk(
   "chat/fetchMessages",
-  async (conversationId: string, { rejectWithValue, dispatch }) => {
+  async (
+    conversationId: string,
+    { getState, rejectWithValue, dispatch }
+  ) => {
     try {
       // Make sure chat is initialized
       const chatService = ChatService.getInstance();
@@ -121,8 +149,27 @@ export const fetchMessages = createAsyncThunk(
         await dispatch(initializeChat()).unwrap();
       }
 
-      const messages = await chatService.getMessages(conversationId);
-      return messages;
+      const { messages, hasMore } = await chatService.getMessages(
+        conversationId
+      );
+
+      // Messages still in the outbox stay visible after a reload. Any the
+      // server already has (its reply got lost) are done.
+      const { currentUserId } = (getState() as { chat: ChatState }).chat;
+      const outbox = ChatOutbox.getInstance();
+      const delivered = new Set(messages.map((m) => m.client_id));
+      const pending: Message[] = [];
+      const queued = currentUserId ? await outbox.getAll(currentUserId) : [];
+      for (const entry of queued) {
+        if (entry.conversationId !== conversationId) continue;
+        if (delivered.has(entry.clientId)) {
+          await outbox.remove(entry.clientId);
+        } else {
+          pending.push(toPendingMessage(entry));
+        }
+      }
+
+      return { messages: [...messages, ...pending], hasMore };
     } catch (error) {
       console.error("Error in fetchMessages thunk:", error);
 
@@ -139,6 +186,36 @@ export const fetchMessages = createAsyncThunk(
   }
 );
 
+// Loads the page before the oldest message we have. Pending messages have no
+// server id yet, so they can't be used as the cursor.
+export const fetchOlderMessages = createAsyncThunk(
+  "chat/fetchOlderMessages",
+  async (conversationId: string, { getState, rejectWithValue }) => {
+    const { chat } = getState() as { chat: ChatState };
+    const oldest = chat.messagesByConversation[conversationId]?.messages.find(
+      (m) => !m.delivery
+    );
+
+    try {
+      return await ChatService.getInstance().getMessages(conversationId, {
+        before: oldest?.id,
+      });
+    } catch (error) {
+      console.error("Error in fetchOlderMessages thunk:", error);
+      return rejectWithValue((error as Error).message);
+    }
+  },
+  {
+    condition: (conversationId, { getState }) => {
+      const { chat } = getState() as { chat: ChatState };
+      const loaded = chat.messagesByConversation[conversationId];
+      return !!loaded && loaded.hasMore && !loaded.isLoadingOlder;
+    },
+  }
+);
+
+// Shows the message straight away and queues it in the outbox; flushOutbox
+// takes care of actually delivering it
 export const sendMessage = createAsyncThunk(
   "chat/sendMessage",
   async (
@@ -146,63 +223,232 @@ export const sendMessage = createAsyncThunk(
       receiverId,
       conversationId,
       message,
-    }: { receiverId: string; conversationId: string; message: string },
-    { rejectWithValue, dispatch, getState }
+      attachment,
+      sender,
+    }: {
+      receiverId: string;
+      conversationId: string;
+      message: string;
+      attachment?: MessageAttachment | null;
+      // The signed-in user, from auth
+      sender: User;
+    },
+    { dispatch }
   ) => {
+    const entry = await ChatOutbox.getInstance().add({
+      clientId: crypto.randomUUID(),
+      receiverId,
+      conversationId,
+      message,
+      attachment,
+      sender,
+      createdAt: new Date().toISOString(),
+    });
+
+    dispatch(
+      messageQueued({ conversationId, message: toPendingMessage(entry) })
+    );
+    dispatch(flushOutbox());
+    return entry.clientId;
+  }
+);
+
+let isFlushingOutbox = false;
+let outboxRetryTimeout: NodeJS.Timeout | null = null;
+
+// Sends every outbox entry of the signed-in user that is due, oldest first,
+// and schedules the next attempt for whatever is left. Runs again when the
+// browser comes back online and when the socket reconnects (see
+// chatOutboxMiddleware). Nothing is sent until chat has been initialized
+// with the current user's token.
+export const flushOutbox = createAsyncThunk(
+  "chat/flushOutbox",
+  async (_, { getState, dispatch }) => {
+    const { currentUserId, isInitialized } = (getState() as { chat: ChatState })
+      .chat;
+    if (!currentUserId || !isInitialized) return;
+    if (isFlushingOutbox) return;
+    if (typeof navigator !== "undefined" && !navigator.onLine) return;
+
+    isFlushingOutbox = true;
+    if (outboxRetryTimeout) {
+      clearTimeout(outboxRetryTimeout);
+      outboxRetryTimeout = null;
+    }
+
+    const outbox = ChatOutbox.getInstance();
     try {
-      // Make sure chat is initialized
       const chatService = ChatService.getInstance();
       if (!chatService.isConfigured()) {
         await dispatch(initializeChat()).unwrap();
       }
 
-      // Try to send the message
-      await chatService.sendMessage(receiverId, conversationId, message);
-
-      // If successful, fetch updated messages
-      try {
-        const messages = await chatService.getMessages(conversationId);
-        return messages;
-      } catch (fetchError) {
-        console.error("Error fetching messages after sending:", fetchError);
-
-        // If we can't fetch messages, at least add the sent message to the state
-        // Get current state
-        const state = getState() as { chat: ChatState };
-        const { messages, activeConversation } = state.chat;
-
-        if (activeConversation) {
-          // Create a temporary message object
-          const tempMessage: Message = {
-            id: `temp-${Date.now()}`,
-            message,
-            created_at: new Date().toISOString(),
-            status: "SENT",
-            sender: {
-              id: localStorage.getItem("userId") || "unknown",
-              name: localStorage.getItem("userEmail") || "Current User",
-            },
-            receiver: { id: receiverId, name: "Recipient" },
-          };
-
-          // Return current messages plus the new one
-          return [...messages, tempMessage];
-        }
+      const due = (await outbox.getAll(currentUserId)).filter(
+        (entry) => !entry.failed && entry.nextAttemptAt <= Date.now()
+      );
 
-        // If no active conversation, just return current messages
-        return messages;
+      for (const entry of due) {
+        try {
+          const sent: Message = await chatService.sendMessage(
+            entry.receiverId,
+            entry.conversationId,
+            entry.message,
+            entry.clientId,
+            entry.attachment
+          );
+          await outbox.remove(entry.clientId);
+          dispatch(messageSent({ clientId: entry.clientId, message: sent }));
+        } catch (error) {
+          // fetch rejects with a TypeError when the request never got out
+          const isNetworkError = error instanceof TypeError;
+          const updated = await outbox.recordFailure(entry, isNetworkError);
+          if (updated.failed) dispatch(messageFailed(entry.clientId));
+        }
       }
     } catch (error) {
-      console.error("Error in sendMessage thunk:", error);
+      console.error("Error flushing chat outbox:", error);
+    } finally {
+      isFlushingOutbox = false;
+    }
 
-      // Check if it's an auth error
-      if ((error as Error).message.includes("Authentication failed")) {
-        return rejectWithValue({
-          message: (error as Error).message,
-          authError: true,
-        });
-      }
+    const waiting = (await outbox.getAll(currentUserId)).filter(
+      (entry) => !entry.failed
+    );
+    if (waiting.length) {
+      const nextAttemptAt = Math.min(...waiting.map((e) => e.nextAttemptAt));
+      outboxRetryTimeout = setTimeout(
+        () => dispatch(flushOutbox()),
+        Math.max(0, nextAttemptAt - Date.now())
+      );
+    }
+  }
+);
+
+export const retryMessage = createAsyncThunk(
+  "chat/retryMessage",
+  async (clientId: string, { dispatch }) => {
+    await ChatOutbox.getInstance().resetForRetry(clientId);
+    dispatch(messageRetrying(clientId));
+    dispatch(flushOutbox());
+  }
+);
+
+export const discardMessage = createAsyncThunk(
+  "chat/discardMessage",
+  async (clientId: string) => {
+    await ChatOutbox.getInstance().remove(clientId);
+    return clientId;
+  }
+);
+
+export const editMessage = createAsyncThunk(
+  "chat/editMessage",
+  async (
+    {
+      receiverId,
+      conversationId,
+      messageId,
+      message,
+    }: {
+      receiverId: string;
+      conversationId: string;
+      messageId: string;
+      message: string;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      const edited = await ChatService.getInstance().editMessage(
+        receiverId,
+        conversationId,
+        messageId,
+        message
+      );
+      const payload: MessageEditedPayload = {
+        message_id: messageId,
+        conversation_id: conversationId,
+        message: edited.message,
+        edited_at: edited.edited_at || new Date().toISOString(),
+      };
+      return payload;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
 
+export const deleteMessage = createAsyncThunk(
+  "chat/deleteMessage",
+  async (
+    {
+      receiverId,
+      conversationId,
+      messageId,
+      scope,
+    }: {
+      receiverId: string;
+      conversationId: string;
+      messageId: string;
+      scope: DeleteScope;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      const deletedAt = await ChatService.getInstance().deleteMessage(
+        receiverId,
+        conversationId,
+        messageId,
+        scope
+      );
+      const payload: MessageDeletedPayload = {
+        message_id: messageId,
+        conversation_id: conversationId,
+        deleted_at: deletedAt,
+      };
+      return payload;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+// Shows the change straight away and undoes it if the server refuses
+export const toggleReaction = createAsyncThunk(
+  "chat/toggleReaction",
+  async (
+    {
+      receiverId,
+      conversationId,
+      messageId,
+      emoji,
+      userId,
+    }: {
+      receiverId: string;
+      conversationId: string;
+      messageId: string;
+      emoji: string;
+      userId: string;
+    },
+    { getState, dispatch, rejectWithValue }
+  ) => {
+    const { chat } = getState() as { chat: ChatState };
+    const message = chat.messagesByConversation[
+      conversationId
+    ]?.messages.find((m) => m.id === messageId);
+
+    const reaction: MessageReactionPayload = {
+      message_id: messageId,
+      conversation_id: conversationId,
+      emoji,
+      user_id: userId,
+      added: !hasReacted(message?.reactions, emoji, userId),
+    };
+    dispatch(reactionUpdated(reaction));
+
+    try {
+      await ChatService.getInstance().setReaction(receiverId, reaction);
+    } catch (error) {
+      dispatch(reactionUpdated({ ...reaction, added: !reaction.added }));
       return rejectWithValue((error as Error).message);
     }
   }
@@ -292,29 +538,178 @@ export const stopTypingStatus = createAsyncThunk(
   }
 );
 
+export const updateMessageStatus = createAsyncThunk(
+  "chat/updateMessageStatus",
+  async (
+    { messageId, status }: { messageId: string; status: Message["status"] },
+    { rejectWithValue, dispatch }
+  ) => {
+    try {
+      // Make sure chat is initialized
+      const chatService = ChatService.getInstance();
+      if (!chatService.isConfigured()) {
+        await dispatch(initializeChat()).unwrap();
+      }
+
+      chatService.updateMessageStatus(messageId, status);
+      return { message_id: messageId, status };
+    } catch (error) {
+      console.error("Error updating message status:", error);
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+// Finds a message in whichever conversation it was loaded into
+const findMessage = (
+  state: ChatState,
+  predicate: (message: Message) => boolean
+): { loaded: ConversationMessages; index: number } | null => {
+  for (const loaded of Object.values(state.messagesByConversation)) {
+    const index = loaded.messages.findIndex(predicate);
+    if (index !== -1) return { loaded, index };
+  }
+  return null;
+};
+
+const applyMessageStatus = (
+  state: ChatState,
+  { message_id, status }: { message_id: string; status: Message["status"] }
+) => {
+  const found = findMessage(state, (msg) => msg.id === message_id);
+  const message = found?.loaded.messages[found.index];
+  if (message && STATUS_RANK[status] > STATUS_RANK[message.status]) {
+    message.status = status;
+  }
+};
+
+const applyMessageEdit = (
+  state: ChatState,
+  { message_id, message, edited_at }: MessageEditedPayload
+) => {
+  const found = findMessage(state, (m) => m.id === message_id);
+  const target = found?.loaded.messages[found.index];
+  if (target && !target.deleted_at) {
+    target.message = message;
+    target.edited_at = edited_at;
+  }
+};
+
+// Leaves a tombstone in place of the message
+const applyMessageDelete = (
+  state: ChatState,
+  { message_id, deleted_at }: MessageDeletedPayload
+) => {
+  const found = findMessage(state, (m) => m.id === message_id);
+  const target = found?.loaded.messages[found.index];
+  if (target) {
+    target.message = "";
+    target.attachment = null;
+    target.deleted_at = deleted_at;
+  }
+};
+
+const setDelivery = (
+  state: ChatState,
+  clientId: string,
+  delivery: Message["delivery"]
+) => {
+  const found = findMessage(state, (m) => m.client_id === clientId);
+  if (found) found.loaded.messages[found.index].delivery = delivery;
+};
+
 const chatSlice = createSlice({
   name: "chat",
   initialState,
   reducers: {
+    // Set by the auth provider once we know who signed in
+    chatUserChanged: (state, action: PayloadAction<string>) => {
+      state.currentUserId = action.payload;
+    },
+    // On sign-out. Queued messages stay in the outbox for when their sender
+    // signs in again.
+    resetChat: () => initialState,
+    // Loaded history is kept per conversation, so switching back doesn't
+    // start from scratch
     setActiveConversation: (state, action: PayloadAction<Conversation>) => {
       state.activeConversation = action.payload;
-      // Reset messages when changing conversations
-      state.messages = [];
       state.error = null;
       // Reset typing status
       state.typingUsers = {};
     },
     clearActiveConversation: (state) => {
       state.activeConversation = null;
-      state.messages = [];
       state.error = null;
       state.typingUsers = {};
     },
-    addMessage: (state, action: PayloadAction<Message>) => {
+    addMessage: (state, action: PayloadAction<SocketChatMessage>) => {
+      const { conversation_id, ...message } = action.payload;
+      // Not loaded yet; it'll come with the first page
+      const loaded = state.messagesByConversation[conversation_id];
+      if (!loaded) return;
+
       // Check if message already exists
-      const exists = state.messages.some((msg) => msg.id === action.payload.id);
+      const exists = loaded.messages.some((msg) => msg.id === message.id);
       if (!exists) {
-        state.messages.push(action.payload);
+        loaded.messages.push(message);
+      }
+    },
+    messageQueued: (
+      state,
+      action: PayloadAction<{ conversationId: string; message: Message }>
+    ) => {
+      const loaded =
+        state.messagesByConversation[action.payload.conversationId];
+      loaded?.messages.push(action.payload.message);
+    },
+    // Swaps the optimistic message for the one the server stored
+    messageSent: (
+      state,
+      action: PayloadAction<{ clientId: string; message: Message }>
+    ) => {
+      const { clientId, message } = action.payload;
+      const found = findMessage(state, (m) => m.client_id === clientId);
+      if (!found) return;
+
+      const { loaded, index } = found;
+      const alreadyReceived = loaded.messages.some((m) => m.id === message.id);
+      if (alreadyReceived) {
+        loaded.messages.splice(index, 1);
+      } else {
+        loaded.messages[index] = { ...message, client_id: clientId };
+      }
+    },
+    messageFailed: (state, action: PayloadAction<string>) => {
+      setDelivery(state, action.payload, "failed");
+    },
+    messageRetrying: (state, action: PayloadAction<string>) => {
+      setDelivery(state, action.payload, "pending");
+    },
+    messageStatusUpdated: (
+      state,
+      action: PayloadAction<{ message_id: string; status: Message["status"] }>
+    ) => {
+      applyMessageStatus(state, action.payload);
+    },
+    // From the other participant, over the socket
+    messageEdited: (state, action: PayloadAction<MessageEditedPayload>) => {
+      applyMessageEdit(state, action.payload);
+    },
+    messageDeleted: (state, action: PayloadAction<MessageDeletedPayload>) => {
+      applyMessageDelete(state, action.payload);
+    },
+    // Ours (optimistically) or the other participant's, over the socket
+    reactionUpdated: (state, action: PayloadAction<MessageReactionPayload>) => {
+      const { message_id, emoji, user_id, added } = action.payload;
+      const found = findMessage(state, (m) => m.id === message_id);
+      const target = found?.loaded.messages[found.index];
+      if (target) {
+        target.reactions = applyReaction(
+          target.reactions,
+          emoji,
+          user_id,
+          added
+        );
       }
     },
     clearError: (state) => {
@@ -390,14 +785,37 @@ const chatSlice = createSlice({
       })
 
       // Fetch messages
-      .addCase(fetchMessages.pending, (state) => {
-        state.isLoading = true;
+      .addCase(fetchMessages.pending, (state, action) => {
+        // A conversation seen before stays on screen while it refreshes
+        state.isLoading = !state.messagesByConversation[action.meta.arg];
         state.error = null;
       })
       .addCase(fetchMessages.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.messages = action.payload;
         state.authError = false;
+
+        const { messages, hasMore } = action.payload;
+        const existing = state.messagesByConversation[action.meta.arg];
+
+        // Keep older pages already scrolled through that predate the
+        // refreshed latest page
+        const fetchedIds = new Set(messages.map((m) => m.id));
+        const oldestFetched = messages.find((m) => !m.delivery)?.created_at;
+        const older =
+          existing && oldestFetched
+            ? existing.messages.filter(
+                (m) =>
+                  !m.delivery &&
+                  !fetchedIds.has(m.id) &&
+                  m.created_at < oldestFetched
+              )
+            : [];
+
+        state.messagesByConversation[action.meta.arg] = {
+          messages: [...older, ...messages],
+          hasMore: older.length > 0 ? existing.hasMore : hasMore,
+          isLoadingOlder: false,
+        };
       })
       .addCase(fetchMessages.rejected, (state, action) => {
         state.isLoading = false;
@@ -414,29 +832,56 @@ const chatSlice = createSlice({
         }
       })
 
+      // Older history
+      .addCase(fetchOlderMessages.pending, (state, action) => {
+        state.messagesByConversation[action.meta.arg].isLoadingOlder = true;
+      })
+      .addCase(fetchOlderMessages.fulfilled, (state, action) => {
+        const loaded = state.messagesByConversation[action.meta.arg];
+        if (!loaded) return;
+
+        const { messages, hasMore } = action.payload;
+        const known = new Set(loaded.messages.map((m) => m.id));
+        loaded.messages.unshift(...messages.filter((m) => !known.has(m.id)));
+        loaded.hasMore = hasMore;
+        loaded.isLoadingOlder = false;
+      })
+      .addCase(fetchOlderMessages.rejected, (state, action) => {
+        const loaded = state.messagesByConversation[action.meta.arg];
+        if (loaded) loaded.isLoadingOlder = false;
+      })
+
       // Send message
       .addCase(sendMessage.pending, (state) => {
         state.isSending = true;
         state.error = null;
       })
-      .addCase(sendMessage.fulfilled, (state, action) => {
+      .addCase(sendMessage.fulfilled, (state) => {
         state.isSending = false;
-        state.messages = action.payload;
-        state.authError = false;
       })
-      .addCase(sendMessage.rejected, (state, action) => {
+      // Only queueing can fail here; delivery failures show per message
+      .addCase(sendMessage.rejected, (state) => {
         state.isSending = false;
+      })
 
-        if (
-          typeof action.payload === "object" &&
-          action.payload !== null &&
-          "authError" in action.payload
-        ) {
-          state.error = (action.payload as any).message;
-          state.authError = true;
-        } else {
-          state.error = action.payload as string;
+      .addCase(discardMessage.fulfilled, (state, action) => {
+        const found = findMessage(state, (m) => m.client_id === action.payload);
+        found?.loaded.messages.splice(found.index, 1);
+      })
+
+      .addCase(editMessage.fulfilled, (state, action) => {
+        applyMessageEdit(state, action.payload);
+      })
+      .addCase(deleteMessage.fulfilled, (state, action) => {
+        if (action.meta.arg.scope === "everyone") {
+          applyMessageDelete(state, action.payload);
+          return;
         }
+        const found = findMessage(
+          state,
+          (m) => m.id === action.payload.message_id
+        );
+        found?.loaded.messages.splice(found.index, 1);
       })
 
       // Create conversation
@@ -475,16 +920,45 @@ const chatSlice = createSlice({
         if (action.payload) {
           state.typingUsers[action.payload.conversationId] = null;
         }
+      })
+
+      // Message status
+      .addCase(updateMessageStatus.fulfilled, (state, action) => {
+        applyMessageStatus(state, action.payload);
       });
   },
 });
 
 export const {
+  chatUserChanged,
+  resetChat,
   setActiveConversation,
   clearActiveConversation,
   addMessage,
+  messageQueued,
+  messageSent,
+  messageFailed,
+  messageRetrying,
+  messageStatusUpdated,
+  messageEdited,
+  messageDeleted,
+  reactionUpdated,
   clearError,
   setUserTyping,
   resetAuthError,
 } = chatSlice.actions;
 export default chatSlice.reducer;
+
+const NO_MESSAGES: Message[] = [];
+
+export const selectActiveHistory = (
+  state: { chat: ChatState }
+): ConversationMessages | undefined => {
+  const { activeConversation, messagesByConversation } = state.chat;
+  return activeConversation
+    ? messagesByConversation[activeConversation.id]
+    : undefined;
+};
+
+export const selectActiveMessages = (state: { chat: ChatState }) =>
+  selectActiveHistory(state)?.messages ?? NO_MESSAGES;
@@ -0,0 +1,33 @@
+import { createListenerMiddleware, isAnyOf } from "@reduxjs/toolkit"
+import {
+  addCallHistoryEntry,
+  callHistoryStorageKey,
+  clearCallHistory,
+  hydrateCallHistory,
+  markMissedCallsSeen,
+} from "../features/callHistory/callHistorySlice"
+import type { RootState } from "../store"
+
+// Persist call history to localStorage whenever it changes
+export const callHistoryMiddleware = createListenerMiddleware()
+
+callHistoryMiddleware.startListening({
+  matcher: isAnyOf(hydrateCallHistory, addCallHistoryEntry, markMissedCallsSeen, clearCallHistory),
+  effect: (action, listenerApi) => {
+    const { callHistory } = listenerApi.getState() as RootState
+    // Don't overwrite stored history before it has been loaded
+    if (!callHistory.isHydrated || !callHistory.userId) return
+
+    try {
+      localStorage.setItem(
+        callHistoryStorageKey(callHistory.userId),
+        JSON.stringify({
+          entries: callHistory.entries,
+          unseenMissedCount: callHistory.unseenMissedCount,
+        }),
+      )
+    } catch (error) {
+      console.error("Error saving call history:", error)
+    }
+  },
+})
@@ -0,0 +1,25 @@
+import { createListenerMiddleware } from "@reduxjs/toolkit"
+import { SocketService } from "@/service/socket.service"
+import { flushOutbox, initializeChat } from "../features/chat/chatSlice"
+import type { AppDispatch } from "../store"
+
+// Retries queued chat messages as soon as there's a chance they get through
+export const chatOutboxMiddleware = createListenerMiddleware()
+
+let isWatching = false
+
+chatOutboxMiddleware.startListening({
+  actionCreator: initializeChat.fulfilled,
+  effect: (_, listenerApi) => {
+    const dispatch = listenerApi.dispatch as AppDispatch
+
+    if (!isWatching) {
+      isWatching = true
+      window.addEventListener("online", () => dispatch(flushOutbox()))
+      SocketService.getInstance().subscribe("connect", () => dispatch(flushOutbox()))
+    }
+
+    // Anything left over from an earlier session
+    dispatch(flushOutbox())
+  },
+})
@@ -2,12 +2,16 @@ import { configureStore } from "@reduxjs/toolkit"
 import callReducer from "./features/call/callSlice"
 import messageReducer from "./features/message/messageSlice"
 import chatReducer from "./features/chat/chatSlice"
+import callHistoryReducer from "./features/callHistory/callHistorySlice"
+import { callHistoryMiddleware } from "./middleware/callHistoryMiddleware"
+import { chatOutboxMiddleware } from "./middleware/chatOutboxMiddleware"
 
 export const store = configureStore({
   reducer: {
     call: callReducer,
     message: messageReducer,
     chat: chatReducer,
+    callHistory: callHistoryReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
@@ -19,7 +23,7 @@ export const store = configureStore({
         // Ignore these paths in the state
         ignoredPaths: ["message.messages"],
       },
-    }),
+    }).prepend(callHistoryMiddleware.middleware, chatOutboxMiddleware.middleware),
 })
 
 export type RootState = ReturnType<typeof store.getState>